@@ -0,0 +1,256 @@
+import log from './log.js';
+import { Client } from 'discord.js';
+import Database from 'better-sqlite3';
+import { Config } from './config.js';
+import { EventQueue } from './event_queue.js';
+import { StreamManager } from './stream_manager.js';
+import { StreamerRepository } from './streamer_repository.js';
+import { SessionRepository } from './session_repository.js';
+import { TwitchApi } from './twitch/twitch_api.js';
+
+const logger = log('AlertDispatcher');
+
+/**
+ * Dispatches the Twitch events to the stream managers of the guilds that track the broadcaster. The subscriptions
+ * are shared by all guilds, so revocations are handled here only once.
+ */
+export class AlertDispatcher {
+    /** Max number of attempts made to recreate a revoked subscription */
+    private static readonly MAX_RESUBSCRIBE_ATTEMPTS = 5;
+    /** Time to wait before the first attempt to recreate a revoked subscription, doubled at each attempt */
+    private static readonly RESUBSCRIBE_DELAY = 60 * 1000;
+    /** Revocation reasons after which the subscription can be recreated */
+    private static readonly RECOVERABLE_REVOCATIONS = ['notification_failures_exceeded'];
+    /** Time after which the handling of an event that is still running is logged as slow */
+    private static readonly EVENT_TIMEOUT = 30 * 1000;
+
+    private readonly _client: Client;
+    private readonly _twitchApi: TwitchApi;
+    private readonly _streamers: StreamerRepository;
+    private readonly _sessions: SessionRepository;
+    private readonly _dataFilePath: string;
+
+    /** Queue that handles the events of each broadcaster one at a time, so that their alerts are updated in order */
+    private readonly _eventQueue = new EventQueue(AlertDispatcher.EVENT_TIMEOUT);
+    /** Maps guildId to the stream manager of the guild, only guilds with a valid config have one */
+    private readonly _managers: Record<string, StreamManager> = {};
+
+    /**
+     * Creates the dispatcher, without stream managers.
+     * @param client the Discord client
+     * @param twitchApi the Twitch API
+     * @param streamers the repository of the streamers of all guilds
+     * @param sessions the repository of the stream history of all guilds
+     * @param dataFilePath the path of the database file
+     * @param mainGuildId the id of the guild set in the config file
+     */
+    constructor(client: Client, twitchApi: TwitchApi, streamers: StreamerRepository, sessions: SessionRepository,
+        dataFilePath: string, mainGuildId: string) {
+        this._client = client;
+        this._twitchApi = twitchApi;
+        this._streamers = streamers;
+        this._sessions = sessions;
+        this._dataFilePath = dataFilePath;
+        AlertDispatcher.migrateSavedStreams(dataFilePath, mainGuildId);
+    }
+
+    /**
+     * Moves the online streams saved by versions that supported a single guild to the namespace of the main guild.
+     * @param dataFilePath the path of the database file
+     * @param guildId the id of the main guild
+     * @private
+     */
+    private static migrateSavedStreams(dataFilePath: string, guildId: string): void {
+        try {
+            const db = new Database(dataFilePath);
+            const prefix = `${StreamManager.getNamespace(guildId)}:`;
+            const moved = db.prepare('UPDATE keyv SET key = ? || substr(key, ?) WHERE key LIKE \'streamManager:%\'')
+                .run(prefix, 'streamManager:'.length + 1).changes;
+            db.close();
+            if (moved > 0) logger.info(`Moved ${moved} saved streams to the main guild`);
+        } catch (e) {
+            logger.debug(`No saved streams to migrate: ${e}`);
+        }
+    }
+
+    /**
+     * Gets the stream manager of the given guild, or undefined if the guild has no valid config.
+     * @param guildId the id of the guild
+     */
+    getManager(guildId: string): StreamManager | undefined {
+        return this._managers[guildId];
+    }
+
+    /**
+     * Sets the config of a guild, creating its stream manager or applying the config to the existing one.
+     * @param guildId the id of the guild
+     * @param cfg the config of the guild, it must have been validated
+     */
+    async setGuildConfig(guildId: string, cfg: Config): Promise<void> {
+        const manager = this._managers[guildId];
+        if (manager) {
+            await manager.updateConfig(cfg);
+        } else {
+            this._managers[guildId] = new StreamManager(this._client, this._twitchApi, this._streamers,
+                this._sessions, this._dataFilePath, cfg, guildId, this._eventQueue);
+        }
+    }
+
+    /**
+     * Stops sending alerts in a guild, after the bot has been removed from it.
+     * @param guildId the id of the guild
+     */
+    removeGuild(guildId: string): void {
+        this._managers[guildId]?.stop();
+        delete this._managers[guildId];
+    }
+
+    /**
+     * Gets the stream managers of the guilds that track the given broadcaster.
+     * @param broadcasterId the id of the broadcaster
+     * @private
+     */
+    private getManagers(broadcasterId: string): StreamManager[] {
+        return Object.values(this._managers).filter(manager => manager.isTracking(broadcasterId));
+    }
+
+    /**
+     * Sends a message to the admin log channels of the guilds that registered the given broadcaster, even if he is
+     * disabled or broken there.
+     * @param broadcasterId the id of the broadcaster the message refers to
+     * @param content the content of the message
+     * @private
+     */
+    private async sendAdminLog(broadcasterId: string, content: string): Promise<void> {
+        await Promise.all(this._streamers.getAllById(broadcasterId)
+            .map(streamer => this._managers[streamer.guildId]?.sendAdminLog(content)));
+    }
+
+    /**
+     * Tries to recreate a revoked subscription, retrying with exponential backoff if it fails.
+     * @param broadcasterId the id of the broadcaster
+     * @param type the type of the revoked subscription
+     * @param attempt the number of attempts already made
+     * @private
+     */
+    private async resubscribe(broadcasterId: string, type: string, attempt = 0): Promise<void> {
+        if (!this._streamers.getTrackedIds().includes(broadcasterId)) return;
+        const login = this._streamers.getAllById(broadcasterId)[0]?.login ?? broadcasterId;
+
+        let subscribed = false;
+        try {
+            subscribed = await this._twitchApi.subscribeToEvent(type, broadcasterId);
+        } catch (e) {
+            logger.error(`Error while resubscribing to '${type}' for ${login}: ${e}`);
+        }
+        if (subscribed) {
+            logger.info(`Resubscribed to '${type}' for ${login}`);
+            await this.sendAdminLog(broadcasterId, `Subscription to \`${type}\` for ${login} has been recreated`);
+            return;
+        }
+
+        if (attempt + 1 >= AlertDispatcher.MAX_RESUBSCRIBE_ATTEMPTS) {
+            logger.error(`Could not resubscribe to '${type}' for ${login}, giving up`);
+            await this.sendAdminLog(broadcasterId, `Could not recreate the subscription to \`${type}\` for ${login}, ` +
+                'restart the bot to try again');
+            return;
+        }
+        const delay = AlertDispatcher.RESUBSCRIBE_DELAY * 2 ** attempt;
+        logger.warn(`Could not resubscribe to '${type}' for ${login}, retrying in ${delay / 1000}s`);
+        setTimeout(() => {
+            this.resubscribe(broadcasterId, type, attempt + 1).catch(logger.error);
+        }, delay);
+    }
+
+    /**
+     * Queues the handling of an event, it will start after all the events previously received for the same
+     * broadcaster have been handled.
+     * @param broadcasterId the id of the broadcaster the event refers to
+     * @param name the name of the event, used in logs
+     * @param handler the function that handles the event, usually one of the 'on' methods of this class
+     */
+    queueEvent(broadcasterId: string, name: string, handler: () => Promise<void>): Promise<void> {
+        return this._eventQueue.enqueue(broadcasterId, name, handler);
+    }
+
+    /**
+     * Handles a stream.online notification in all the guilds that track the broadcaster.
+     * @param broadcasterId the id of the broadcaster that started streaming
+     * @param broadcasterLogin the login of the broadcaster that started streaming
+     * @param broadcasterName the display name of the broadcaster that started streaming
+     */
+    async onStreamOnline(broadcasterId: string, broadcasterLogin: string, broadcasterName: string): Promise<void> {
+        this._streamers.setLastSeen(broadcasterId, 'online', Date.now());
+        await Promise.all(this.getManagers(broadcasterId)
+            .map(manager => manager.onStreamOnline(broadcasterId, broadcasterLogin, broadcasterName)));
+    }
+
+    /**
+     * Handles a stream.offline notification in all the guilds that track the broadcaster.
+     * @param broadcasterId the id of the broadcaster that stopped streaming
+     * @param broadcasterLogin the login of the broadcaster that stopped streaming
+     */
+    async onStreamOffline(broadcasterId: string, broadcasterLogin: string): Promise<void> {
+        this._streamers.setLastSeen(broadcasterId, 'offline', Date.now());
+        await Promise.all(this.getManagers(broadcasterId)
+            .map(manager => manager.onStreamOffline(broadcasterId, broadcasterLogin)));
+    }
+
+    /**
+     * Handles a channel.raid notification in all the guilds that track the raiding broadcaster.
+     * @param broadcasterId the id of the raiding broadcaster
+     * @param broadcasterLogin the login of the raiding broadcaster
+     * @param broadcasterName the display name of the raiding broadcaster
+     * @param toId the id of the raided broadcaster
+     * @param toLogin the login of the raided broadcaster
+     * @param toName the display name of the raided broadcaster
+     * @param viewers the number of viewers that joined the raid
+     */
+    async onChannelRaid(broadcasterId: string, broadcasterLogin: string, broadcasterName: string, toId: string, toLogin: string, toName: string, viewers: number): Promise<void> {
+        await Promise.all(this.getManagers(broadcasterId).map(manager => manager.onChannelRaid(
+            broadcasterId, broadcasterLogin, broadcasterName, toId, toLogin, toName, viewers)));
+    }
+
+    /**
+     * Handles a channel.update notification in all the guilds that track the broadcaster.
+     * @param broadcasterId the id of the broadcaster that updated his channel
+     * @param broadcasterLogin the login of the broadcaster that update his channel
+     * @param categoryId the id of the new category for the channel
+     * @param category the name of the new category for the channel
+     * @param title the new title for the channel
+     */
+    async onChannelUpdate(broadcasterId: string, broadcasterLogin: string, categoryId: string, category: string, title: string): Promise<void> {
+        await Promise.all(this.getManagers(broadcasterId)
+            .map(manager => manager.onChannelUpdate(broadcasterId, broadcasterLogin, categoryId, category, title)));
+    }
+
+    /**
+     * Handles the revocation of a subscription, removing it from the cache and notifying the admins of the guilds
+     * that track the broadcaster. The subscription is recreated if the reason is recoverable, while the streamer is
+     * marked as broken if his Twitch user no longer exists.
+     * @param broadcasterId the id of the broadcaster of the revoked subscription
+     * @param type the type of the revoked subscription
+     * @param reason the status of the revoked subscription
+     */
+    async onRevocation(broadcasterId: string, type: string, reason: string): Promise<void> {
+        logger.debug(`Revocation of ${type} for ${broadcasterId}`);
+        await this._twitchApi.removeCachedSubscription(broadcasterId, type);
+
+        const streamers = this._streamers.getAllById(broadcasterId);
+        const name = streamers[0]?.login ?? broadcasterId;
+        let action;
+        if (AlertDispatcher.RECOVERABLE_REVOCATIONS.includes(reason)) {
+            action = 'resubscribing';
+        } else if (reason === 'user_removed' && streamers.length > 0) {
+            this._streamers.setBroken(broadcasterId, true);
+            action = 'the streamer has been marked as broken';
+        } else {
+            action = 'no action taken';
+        }
+        logger.warn(`Subscription to '${type}' for ${name} revoked (${reason}), ${action}`);
+        await this.sendAdminLog(broadcasterId, `Subscription to \`${type}\` for ${name} has been revoked by Twitch ` +
+            `(\`${reason}\`), ${action}`);
+
+        if (AlertDispatcher.RECOVERABLE_REVOCATIONS.includes(reason)) await this.resubscribe(broadcasterId, type);
+    }
+}
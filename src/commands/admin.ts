@@ -1,7 +1,13 @@
 import { Command } from './command_manager.js';
 import { SlashCommandBuilder } from '@discordjs/builders';
-import { CommandInteraction, MessageEmbed, User } from 'discord.js';
+import { CommandInteraction, User } from 'discord.js';
 import log from '../log.js';
+import { Bot } from '../index.js';
+import { GuildSettings } from '../guild_repository.js';
+import { ConfigIssue, getValueType, GUILD_KEYS } from '../config_schema.js';
+import { checkDiscordSetup } from '../setup_check.js';
+import { RecapScheduler } from '../recap_scheduler.js';
+import { getPeriod } from '../stats.js';
 
 const logger = log('AdminCommands');
 
@@ -10,59 +16,15 @@ const errorHandler = (interaction: CommandInteraction, e: Error) => {
     interaction.reply({ content: 'An error has occurred', ephemeral: true }).then();
 };
 
-export const listStreamers: Command = {
-    data: new SlashCommandBuilder()
-        .setName('liststreamers')
-        .setDescription('Prints a list of all registered streamers'),
-    execute: async (bot, interaction) => {
-        if (!bot) return;
-
-        await interaction.deferReply();
-
-        const subs = await bot.twitchApi?.getAllSubscriptions(true, true);
-        if (!subs) return;
-
-        const descriptions: string[] = [];
-        let currentPage = 0;
-        descriptions[currentPage] = '';
-        let count = 0;
-        for (const id in subs) {
-            const name = subs[id].name as string;
-            if (!name) return;
-            let valid = true;
-            for (const type of ['stream.online', 'stream.offline', 'channel.update', 'channel.raid']) {
-                const sect = subs[id][type];
-                if (typeof sect !== 'string') {
-                    const status = sect.status;
-                    if (status !== 'enabled') valid = false;
-                }
-            }
-
-            let discordUser = undefined;
-            try {
-                const discordUserId = bot.cfg.getStringIn(['streams', name, 'discord_user_id']);
-                discordUser = await interaction.guild?.members.fetch(discordUserId);
-            } catch (e) {
-                logger.warn(`Twitch user ${name} has invalid discord_user_id`);
-            }
+/** Formats a problem found in the config as a line of a reply */
+const formatIssue = (issue: ConfigIssue) => `- \`${issue.path}\`: ${issue.message}${issue.hint ? ` (${issue.hint})` : ''}`;
 
-            const newLine = `- ${discordUser ? discordUser : 'not_valid'} / https://www.twitch.tv/${name}: ${valid && discordUser ? 'valid' : 'invalid'}\n`;
-            if (descriptions[currentPage].length + newLine.length > 4096) {
-                currentPage++;
-                descriptions[currentPage] = '';
-            }
-            descriptions[currentPage] += newLine;
-            count++;
-        }
-
-        const embeds: MessageEmbed[] = [];
-        for (const description of descriptions) {
-            const embed = new MessageEmbed().setColor('GREEN').setFooter({ text: `Total: ${count}` });
-            embed.setDescription(description);
-            embeds.push(embed);
-        }
-        interaction.editReply({ embeds: embeds }).then();
-    },
+/** Replies with the given lines, truncated to the max length of a message */
+const replyLines = async (interaction: CommandInteraction, lines: string[]) => {
+    let content = lines.join('\n');
+    if (content.length > 2000) content = content.substring(0, 1997) + '...';
+    if (interaction.deferred) await interaction.editReply({ content: content });
+    else await interaction.reply({ content: content, ephemeral: true });
 };
 
 export const addStreamer: Command = {
@@ -71,23 +33,32 @@ export const addStreamer: Command = {
         .setDescription('Adds a new streamer')
         .addUserOption(option => option.setName('user').setDescription('The Discord user').setRequired(true))
         .addStringOption(option => option.setName('twitch_login').setDescription('The login of the streamer on twitch').setRequired(true)) as SlashCommandBuilder,
+    permission: 'admin',
     execute: async (bot, interaction) => {
         if (!bot) return;
 
+        const guildId = interaction.guildId as string;
         const user = interaction.options.getUser('user') as User;
-        const login = interaction.options.getString('twitch_login') as string;
-        bot.twitchApi?.subscribeToStreamUpdates(login).then(() => {
-            bot?.cfg.add(['streams', login], {
-                discord_user_id: user.id,
-            });
-
-            interaction.guild?.members.fetch(user)
-                .then(member => member.roles.add(bot.cfg.getString('streamer_role'))
-                    .catch(e => errorHandler(interaction, e)))
-                .catch(e => errorHandler(interaction, e));
+        const login = (interaction.options.getString('twitch_login') as string).toLowerCase();
+        if (bot.streamers.getByLogin(guildId, login)) {
+            await interaction.reply({ content: 'This streamer is already registered', ephemeral: true });
+            return;
+        }
+        const linked = bot.streamers.getByDiscordUser(guildId, user.id);
+        if (linked) {
+            await interaction.reply({ content: `${user} is already linked to the Twitch account ${linked.login}`, ephemeral: true });
+            return;
+        }
 
-            interaction.reply({ content: 'Done!', ephemeral: true });
-        }).catch((e) => errorHandler(interaction, e));
+        await interaction.deferReply({ ephemeral: true });
+        if (!await bot.registerStreamer(guildId, login, user.id)) {
+            await interaction.editReply({ content: `There is no Twitch user with login '${login}'` });
+            return;
+        }
+        const member = await interaction.guild?.members.fetch(user);
+        await member?.roles.add(bot.getGuildConfig(guildId).getString('streamer_role'));
+        logger.info(`${interaction.user.tag} added streamer ${login}`);
+        await interaction.editReply({ content: 'Done!' });
     },
 };
 
@@ -96,23 +67,382 @@ export const removeStreamer: Command = {
         .setName('removestreamer')
         .setDescription('Removes a registered streamer')
         .addStringOption(option => option.setName('twitch_login').setDescription('The streamer to remove').setRequired(true)) as SlashCommandBuilder,
+    permission: 'admin',
     execute: async (bot, interaction) => {
         if (!bot) return;
 
+        const guildId = interaction.guildId as string;
         const login = interaction.options.getString('twitch_login');
         if (!login) return;
+        const streamer = bot.streamers.getByLogin(guildId, login);
+        if (!streamer) {
+            interaction.reply({ content: 'This streamer is not registered', ephemeral: true }).then();
+            return;
+        }
+        const discordUserId = streamer.discordUserId;
+        if (!discordUserId) {
+            interaction.reply({ content: 'This is an external streamer, use /external remove', ephemeral: true }).then();
+            return;
+        }
 
-        bot.twitchApi?.deleteSubscriptions(login).then(() => {
-            if (!login) return;
-            const memberId = bot?.cfg.getStringIn(['streams', login, 'discord_user_id']);
-            bot.cfg.remove(['streams', login]);
-
-            interaction.guild?.members.fetch(memberId)
-                .then(member => member.roles.remove(bot.cfg.getString('streamer_role'))
+        bot.unregisterStreamer(streamer).then(() => {
+            interaction.guild?.members.fetch(discordUserId)
+                .then(member => member.roles.remove(bot.getGuildConfig(guildId).getString('streamer_role'))
                     .catch(e => errorHandler(interaction, e)))
                 .catch(e => errorHandler(interaction, e));
 
             interaction.reply({ content: 'Done!', ephemeral: true });
         }).catch((e) => errorHandler(interaction, e));
     },
-};
\ No newline at end of file
+};
+
+export const enableStreamer: Command = {
+    data: new SlashCommandBuilder()
+        .setName('enablestreamer')
+        .setDescription('Enables or disables the alerts of a registered streamer')
+        .addStringOption(option => option.setName('twitch_login').setDescription('The login of the streamer on Twitch').setRequired(true))
+        .addBooleanOption(option => option.setName('enabled').setDescription('If the alerts of the streamer are sent').setRequired(true)) as SlashCommandBuilder,
+    permission: 'admin',
+    execute: async (bot, interaction) => {
+        if (!bot) return;
+
+        const guildId = interaction.guildId as string;
+        const login = (interaction.options.getString('twitch_login') as string).toLowerCase();
+        const enabled = interaction.options.getBoolean('enabled') as boolean;
+        const streamer = bot.streamers.getByLogin(guildId, login);
+        if (!streamer) {
+            await interaction.reply({ content: 'This streamer is not registered', ephemeral: true });
+            return;
+        }
+        if (streamer.enabled === enabled) {
+            await interaction.reply({ content: `${streamer.displayName} is already ${enabled ? 'enabled' : 'disabled'}`, ephemeral: true });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+        await bot.setStreamerEnabled(streamer, enabled);
+        logger.info(`${interaction.user.tag} ${enabled ? 'enabled' : 'disabled'} streamer ${login}`);
+        const content = enabled && streamer.broken
+            ? `Enabled ${streamer.displayName}, but the Twitch user no longer exists so no alerts will be sent`
+            : `${enabled ? 'Enabled' : 'Disabled'} the alerts of ${streamer.displayName}`;
+        await interaction.editReply({ content: content });
+    },
+};
+
+export const external: Command = {
+    data: new SlashCommandBuilder()
+        .setName('external')
+        .setDescription('Manages external streamers, whose alerts are sent even if they are not members of the server')
+        .addSubcommand(sub => sub
+            .setName('add')
+            .setDescription('Starts sending the alerts of a Twitch channel')
+            .addStringOption(option => option.setName('twitch_login').setDescription('The login of the channel on Twitch').setRequired(true)))
+        .addSubcommand(sub => sub
+            .setName('remove')
+            .setDescription('Stops sending the alerts of an external streamer')
+            .addStringOption(option => option.setName('twitch_login').setDescription('The login of the channel on Twitch').setRequired(true))) as SlashCommandBuilder,
+    permission: 'admin',
+    execute: async (bot, interaction) => {
+        if (!bot) return;
+
+        const guildId = interaction.guildId as string;
+        const login = (interaction.options.getString('twitch_login') as string).toLowerCase();
+        const streamer = bot.streamers.getByLogin(guildId, login);
+
+        switch (interaction.options.getSubcommand()) {
+        case 'add':
+            if (streamer) {
+                await interaction.reply({ content: 'This streamer is already registered', ephemeral: true });
+                return;
+            }
+            await interaction.deferReply({ ephemeral: true });
+            if (!await bot.registerStreamer(guildId, login)) {
+                await interaction.editReply({ content: `There is no Twitch user with login '${login}'` });
+                return;
+            }
+            logger.info(`${interaction.user.tag} added external streamer ${login}`);
+            await interaction.editReply({ content: 'Done!' });
+            break;
+        case 'remove':
+            if (!streamer || streamer.discordUserId) {
+                await interaction.reply({ content: 'This is not an external streamer', ephemeral: true });
+                return;
+            }
+            await interaction.deferReply({ ephemeral: true });
+            await bot.unregisterStreamer(streamer);
+            logger.info(`${interaction.user.tag} removed external streamer ${login}`);
+            await interaction.editReply({ content: 'Done!' });
+            break;
+        }
+    },
+};
+
+export const subscriptions: Command = {
+    data: new SlashCommandBuilder()
+        .setName('subscriptions')
+        .setDescription('Manages the Twitch EventSub subscriptions')
+        .addSubcommand(sub => sub
+            .setName('sync')
+            .setDescription('Removes orphaned subscriptions and recreates the missing or failed ones')) as SlashCommandBuilder,
+    permission: 'admin',
+    execute: async (bot, interaction) => {
+        if (!bot) return;
+
+        if (!bot.reconciler) {
+            interaction.reply({ content: 'The bot is not ready yet', ephemeral: true }).then();
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+        const summary = await bot.reconciler.reconcile();
+        if (!summary) {
+            await interaction.editReply({ content: 'Could not fetch the subscriptions from Twitch' });
+            return;
+        }
+        const lines = [`Removed: ${summary.removed}`, `Recreated: ${summary.recreated}`, `Failed: ${summary.failed}`];
+        // Rejected requests are usually retries or replays, many invalid signatures can mean a wrong webhooks_secret
+        const rejected = bot.webhooks?.getRejectedCounts();
+        if (rejected) {
+            lines.push(`Notifications rejected since start: ${rejected.invalidSignature} with invalid signature, ${rejected.expired} expired, ` +
+                `${rejected.duplicate} duplicate`);
+        }
+        await interaction.editReply({ content: lines.join('\n') });
+    },
+};
+
+export const config: Command = {
+    data: new SlashCommandBuilder()
+        .setName('config')
+        .setDescription('Manages the configuration of the bot')
+        .addSubcommand(sub => sub
+            .setName('reload')
+            .setDescription('Applies the changes made to config.yml without restarting the bot')) as SlashCommandBuilder,
+    permission: 'admin',
+    execute: async (bot, interaction) => {
+        if (!bot) return;
+
+        // config.yml is shared by all guilds, so only the admins of the main guild can reload it
+        if (interaction.guildId !== bot.mainGuildId) {
+            interaction.reply({ content: 'The config file can be reloaded only from the main server, use /settings to configure this server', ephemeral: true }).then();
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+        const result = await bot.reloadConfig();
+        const lines = result.issues.map(formatIssue);
+        for (const [guildId, issues] of Object.entries(result.guildIssues)) {
+            const guild = guildId === interaction.guildId ? 'this server' : interaction.client.guilds.cache.get(guildId)?.name ?? guildId;
+            lines.push(`With the settings of ${guild}:`, ...issues.map(formatIssue));
+        }
+        if (!result.applied) {
+            lines.unshift('The config has errors, the previous one is still in use:');
+        } else {
+            if (lines.length > 0) lines.unshift('Warnings:');
+            lines.unshift('Reloaded config.yml');
+            if (result.restartKeys.length > 0) {
+                lines.push(`Changes to ${result.restartKeys.map(key => `\`${key}\``).join(', ')} will be applied after a restart`);
+            }
+        }
+
+        await replyLines(interaction, lines);
+    },
+};
+
+/**
+ * Converts the value of a setting typed in a command to the type expected by the config.
+ * @param type the type of the setting, as returned by getValueType
+ * @param value the value typed by the member
+ * @return the converted value, or undefined if it can't be converted
+ */
+const parseSetting = (type: string, value: string): string | number | boolean | string[] | undefined => {
+    // Channels and roles can be given as mentions, like <#id> and <@&id>
+    const toId = (text: string) => text.replace(/^<(#|@&|@!?)(\d+)>$/, '$2');
+    switch (type) {
+    case 'id':
+        return toId(value.trim());
+    case 'idList':
+        return value.split(/[\s,]+/).filter(item => item.length > 0).map(toId);
+    case 'stringList':
+        return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+    case 'number': {
+        const number = Number(value);
+        return value.trim().length > 0 && !isNaN(number) ? number : undefined;
+    }
+    case 'boolean':
+        return value === 'true' ? true : value === 'false' ? false : undefined;
+    default:
+        return value.replace(/\\n/g, '\n');
+    }
+};
+
+/**
+ * Checks that the channels and roles set in the settings of a guild belong to it, so that IDs copied from another
+ * server are not used. Only the values that differ from the saved settings are checked.
+ * @param interaction the interaction of the command, sent from the guild
+ * @param settings the new settings of the guild
+ * @param current the settings saved for the guild
+ * @return an issue for each channel or role that is not found in the guild
+ */
+const checkGuildIds = async (interaction: CommandInteraction, settings: GuildSettings, current: GuildSettings): Promise<ConfigIssue[]> => {
+    const issues: ConfigIssue[] = [];
+    const guild = interaction.guild;
+    if (!guild) return issues;
+
+    for (const [path, value] of Object.entries(settings)) {
+        const type = getValueType(path.split('/'));
+        if ((type !== 'id' && type !== 'idList') || JSON.stringify(value) === JSON.stringify(current[path])) continue;
+        // Only channels and roles are checked, the admin users are users that may not be members yet
+        const key = path.substring(path.lastIndexOf('/') + 1);
+        const kind = key.endsWith('channel') ? 'channel' : /roles?$/.test(key) ? 'role' : undefined;
+        if (!kind) continue;
+
+        for (const id of Array.isArray(value) ? value : [`${value}`]) {
+            const found = kind === 'channel'
+                ? await guild.channels.fetch(id).catch(() => null)
+                : await guild.roles.fetch(id).catch(() => null);
+            if (!found) issues.push({ path: path, message: `${kind} ${id} is not in this server`, hint: `use the ID of a ${kind} of this server`, severity: 'error' });
+        }
+    }
+    return issues;
+};
+
+/**
+ * Validates the new settings of a guild and saves them. Settings that break the config of a guild whose alerts are
+ * running are rejected, while a guild that is not configured yet can save incomplete settings. Channels and roles of
+ * other guilds are always rejected.
+ * @param bot the bot instance
+ * @param interaction the interaction of the command
+ * @param settings the new settings of the guild
+ * @param change description of the change, used in logs and replies
+ */
+const saveSettings = async (bot: Bot, interaction: CommandInteraction, settings: GuildSettings, change: string) => {
+    const guildId = interaction.guildId as string;
+    await interaction.deferReply({ ephemeral: true });
+    const foreignIds = await checkGuildIds(interaction, settings, bot.guilds.getSettings(guildId));
+    if (foreignIds.length > 0) {
+        await replyLines(interaction, ['The change has not been saved, these IDs are not of this server:', ...foreignIds.map(formatIssue)]);
+        return;
+    }
+
+    const issues = Bot.validateConfig(bot.getGuildConfig(guildId, settings));
+    const errors = issues.filter(issue => issue.severity === 'error');
+    const active = bot.dispatcher?.getManager(guildId) !== undefined;
+    if (active && errors.length > 0) {
+        await replyLines(interaction, ['The change has not been saved, it would make the config of this server invalid:', ...errors.map(formatIssue)]);
+        return;
+    }
+
+    bot.guilds.setSettings(guildId, settings);
+    logger.info(`${interaction.user.tag} ${change} in guild ${guildId}`);
+    if (errors.length > 0) {
+        await replyLines(interaction, ['Saved, the alerts of this server will start once these problems are fixed:', ...errors.map(formatIssue)]);
+        return;
+    }
+
+    await bot.applyGuildConfig(guildId);
+    const setupIssues = await checkDiscordSetup(interaction.client, guildId, bot.getGuildConfig(guildId));
+    const lines = ['Saved and applied'];
+    if (issues.length > 0) lines.push('Warnings:', ...issues.map(formatIssue));
+    if (setupIssues.length > 0) lines.push('Problems in the setup of the server:', ...setupIssues.map(formatIssue));
+    await replyLines(interaction, lines);
+};
+
+export const settings: Command = {
+    data: new SlashCommandBuilder()
+        .setName('settings')
+        .setDescription('Manages the settings of this server, they override the ones of the config file')
+        .addSubcommand(sub => sub
+            .setName('show')
+            .setDescription('Shows the settings of this server'))
+        .addSubcommand(sub => sub
+            .setName('set')
+            .setDescription('Sets a value, lists are separated by commas')
+            .addStringOption(option => option.setName('path').setDescription('Path of the value, like categories/games/notification_channel').setRequired(true))
+            .addStringOption(option => option.setName('value').setDescription('The new value, channels and roles can be mentioned').setRequired(true)))
+        .addSubcommand(sub => sub
+            .setName('unset')
+            .setDescription('Removes a value, or all the values of a section')
+            .addStringOption(option => option.setName('path').setDescription('Path of the value or of the section').setRequired(true))) as SlashCommandBuilder,
+    permission: 'admin',
+    execute: async (bot, interaction) => {
+        if (!bot) return;
+
+        const guildId = interaction.guildId as string;
+        const current = bot.guilds.getSettings(guildId);
+        const subcommand = interaction.options.getSubcommand();
+        if (subcommand === 'show') {
+            const lines = Object.entries(current).map(([path, value]) => `- \`${path}\`: ${JSON.stringify(value)}`);
+            if (lines.length === 0) lines.push('This server has no settings');
+            else lines.unshift('Settings of this server:');
+            const issues = Bot.validateConfig(bot.getGuildConfig(guildId)).filter(issue => issue.severity === 'error');
+            if (issues.length > 0) lines.push('Missing or invalid values:', ...issues.map(formatIssue));
+            await replyLines(interaction, lines);
+            return;
+        }
+
+        const path = (interaction.options.getString('path') as string).split('/').filter(key => key.length > 0);
+        if (!GUILD_KEYS.includes(path[0])) {
+            await replyLines(interaction, [`\`${path[0]}\` is not a setting of the server, it must start with one of: ${GUILD_KEYS.join(', ')}`]);
+            return;
+        }
+        const key = path.join('/');
+
+        if (subcommand === 'unset') {
+            const updated = { ...current };
+            const removed = Object.keys(updated).filter(setting => setting === key || setting.startsWith(`${key}/`));
+            if (removed.length === 0) {
+                await replyLines(interaction, [`\`${key}\` is not set in this server`]);
+                return;
+            }
+            removed.forEach(setting => delete updated[setting]);
+            await saveSettings(bot, interaction, updated, `unset ${key}`);
+            return;
+        }
+
+        const type = getValueType(path);
+        if (!type || type.startsWith('section')) {
+            await replyLines(interaction, [`\`${key}\` is not a value that can be set, check the path in the default config`]);
+            return;
+        }
+        const value = parseSetting(type, interaction.options.getString('value') as string);
+        if (value === undefined) {
+            await replyLines(interaction, [`\`${key}\` must be a ${type}`]);
+            return;
+        }
+        await saveSettings(bot, interaction, { ...current, [key]: value }, `set ${key}`);
+    },
+};
+
+export const recap: Command = {
+    data: new SlashCommandBuilder()
+        .setName('recap')
+        .setDescription('Manages the recaps of the streams posted on a schedule')
+        .addSubcommand(sub => sub
+            .setName('preview')
+            .setDescription('Shows a recap as it would be posted now, only to you')
+            .addStringOption(option => option.setName('recap').setDescription('Key of the recap in the config (default: the first one)'))) as SlashCommandBuilder,
+    permission: 'admin',
+    execute: async (bot, interaction) => {
+        if (!bot || !bot.recapScheduler) return;
+
+        const guildId = interaction.guildId as string;
+        const recaps = RecapScheduler.getRecaps(bot.getGuildConfig(guildId));
+        const key = interaction.options.getString('recap');
+        const selected = key ? recaps.find(r => r.key === key) : recaps[0];
+        if (!selected) {
+            const content = recaps.length > 0
+                ? `There is no recap with key '${key}', available ones are: ${recaps.map(r => r.key).join(', ')}`
+                : 'No recaps are set, add them to the recaps section of the config or with /settings';
+            await interaction.reply({ content: content, ephemeral: true });
+            return;
+        }
+
+        const now = new Date();
+        const next = Math.floor(selected.schedule.next(now).getTime() / 1000);
+        await interaction.reply({
+            content: `Preview of '${selected.key}', it will be posted in <#${selected.channelId}> on <t:${next}:f> (<t:${next}:R>)`,
+            embeds: [bot.recapScheduler.buildRecap(guildId, getPeriod(selected.period, now), selected.title)],
+            ephemeral: true,
+        });
+    },
+};
@@ -1,17 +1,30 @@
 import { SlashCommandBuilder } from '@discordjs/builders';
-import { CommandInteraction } from 'discord.js';
+import { ButtonInteraction, CommandInteraction, SelectMenuInteraction } from 'discord.js';
 import log from '../log.js';
+import { existsSync } from 'fs';
 import { REST } from '@discordjs/rest';
 import { Routes } from 'discord-api-types/v9';
 import { Config } from '../config.js';
-import { addStreamer, listStreamers, removeStreamer } from './admin.js';
+import { GuildRepository } from '../guild_repository.js';
+import { getPathRelativeToProjectRoot } from '../helper.js';
+import { addStreamer, config, enableStreamer, external, recap, removeStreamer, settings, subscriptions } from './admin.js';
+import { listStreamers } from './list_streamers.js';
+import { stats } from './stats.js';
+import { streamer } from './streamer.js';
+import { notify } from './notify.js';
 import { Bot } from '../index.js';
+import { getDefaultMemberPermissions, hasPermission, PermissionLevel } from './permissions.js';
 
 const logger = log('CommandManager');
 
 export interface Command {
     readonly data: SlashCommandBuilder;
+    readonly permission: PermissionLevel;
     readonly execute: (bot: Bot, interaction: CommandInteraction) => Promise<void>;
+    /** Handles clicks on buttons sent by this command, their custom id must start with '<command name>:' */
+    readonly handleButton?: (bot: Bot, interaction: ButtonInteraction) => Promise<void>;
+    /** Handles choices in select menus sent by this command, their custom id must start with '<command name>:' */
+    readonly handleSelectMenu?: (bot: Bot, interaction: SelectMenuInteraction) => Promise<void>;
 }
 
 export class CommandManager {
@@ -21,12 +34,33 @@ export class CommandManager {
         this.addCommand(listStreamers);
         this.addCommand(addStreamer);
         this.addCommand(removeStreamer);
+        this.addCommand(enableStreamer);
+        this.addCommand(external);
+        this.addCommand(subscriptions);
+        this.addCommand(config);
+        this.addCommand(settings);
+        this.addCommand(recap);
+        this.addCommand(streamer);
+        this.addCommand(notify);
+        this.addCommand(stats);
     }
 
     handleCommandInteraction(bot: Bot, interaction: CommandInteraction): void {
         const command = this._commands[interaction.commandName];
         if (!command) return;
 
+        if (!interaction.inGuild()) {
+            interaction.reply({ content: 'Commands can only be used in a server', ephemeral: true })
+                .then();
+            return;
+        }
+        if (!hasPermission(bot.getGuildConfig(interaction.guildId), interaction, command.permission)) {
+            logger.info(`${interaction.user.tag} tried to use '${interaction.commandName}' without permission`);
+            interaction.reply({ content: 'You do not have permission to use this command', ephemeral: true })
+                .then();
+            return;
+        }
+
         command.execute(bot, interaction).catch(e => {
             logger.error(`Interaction '${interaction.commandName}': ${e}`);
             if (interaction.deferred) {
@@ -39,23 +73,99 @@ export class CommandManager {
         });
     }
 
+    handleButtonInteraction(bot: Bot, interaction: ButtonInteraction): void {
+        const commandName = interaction.customId.split(':')[0];
+        const command = this._commands[commandName];
+        if (!command || !command.handleButton) return;
+
+        command.handleButton(bot, interaction).catch(e => {
+            logger.error(`Button '${interaction.customId}': ${e}`);
+            // A deferred or replied button can't be replied to again, the error is sent in a follow-up message
+            if (interaction.deferred || interaction.replied) {
+                interaction.followUp({ content: 'There was an error while handling this button!', ephemeral: true })
+                    .catch(logger.error);
+            } else {
+                interaction.reply({ content: 'There was an error while handling this button!', ephemeral: true })
+                    .catch(logger.error);
+            }
+        });
+    }
+
+    handleSelectMenuInteraction(bot: Bot, interaction: SelectMenuInteraction): void {
+        const commandName = interaction.customId.split(':')[0];
+        const command = this._commands[commandName];
+        if (!command || !command.handleSelectMenu) return;
+
+        command.handleSelectMenu(bot, interaction).catch(e => {
+            logger.error(`Select menu '${interaction.customId}': ${e}`);
+            // Menus like the ones of /liststreamers defer the update of their message before handling the selection
+            if (interaction.deferred || interaction.replied) {
+                interaction.followUp({ content: 'There was an error while handling this menu!', ephemeral: true })
+                    .catch(logger.error);
+            } else {
+                interaction.reply({ content: 'There was an error while handling this menu!', ephemeral: true })
+                    .catch(logger.error);
+            }
+        });
+    }
+
     private addCommand(command: Command) {
         this._commands[command.data.name] = command;
     }
 
-    registerAllCommands() {
+    /**
+     * Gets the definitions of all commands, as sent to the Discord API.
+     * @param cfg the config of the bot
+     * @private
+     */
+    private getCommandsData(cfg: Config): object[] {
+        const defaultMemberPermissions = getDefaultMemberPermissions(cfg);
         const toRegister: object[] = [];
         for (const cmd in this._commands) {
-            toRegister.push(this._commands[cmd].data.toJSON());
+            const command = this._commands[cmd];
+            if (command.permission === 'admin' && defaultMemberPermissions) {
+                toRegister.push({ ...command.data.toJSON(), 'default_member_permissions': defaultMemberPermissions });
+            } else {
+                toRegister.push(command.data.toJSON());
+            }
         }
+        return toRegister;
+    }
 
-        const cfg = new Config();
+    /**
+     * Registers the commands in a single guild, used when the bot is added to a guild.
+     * @param cfg the config of the bot
+     * @param guildId the id of the guild
+     */
+    registerGuildCommands(cfg: Config, guildId: string): void {
         const rest = new REST({ version: '9' }).setToken(cfg.getString('token'));
+        rest.put(Routes.applicationGuildCommands(cfg.getString('client_id'), guildId), { body: this.getCommandsData(cfg) })
+            .then(() => logger.info(`Successfully registered application commands in guild ${guildId}.`))
+            .catch(logger.error);
+    }
 
+    /**
+     * Registers the commands globally if 'global_commands' is set in the config, removing the ones registered in the
+     * main guild so that they are not shown twice. Otherwise registers them in the main guild and in all the guilds
+     * saved in the database.
+     */
+    registerAllCommands() {
+        const cfg = new Config();
+        const rest = new REST({ version: '9' }).setToken(cfg.getString('token'));
         const clientId = cfg.getString('client_id');
-        const guildId = cfg.getString('guild_id');
-        rest.put(Routes.applicationGuildCommands(clientId, guildId), { body: toRegister })
-            .then(() => logger.info('Successfully registered application commands.'))
-            .catch(logger.error);
+        const mainGuildId = cfg.getString('guild_id');
+
+        if (cfg.has('global_commands') && cfg.getBoolean('global_commands')) {
+            rest.put(Routes.applicationCommands(clientId), { body: this.getCommandsData(cfg) })
+                .then(() => rest.put(Routes.applicationGuildCommands(clientId, mainGuildId), { body: [] }))
+                .then(() => logger.info('Successfully registered global application commands.'))
+                .catch(logger.error);
+            return;
+        }
+
+        const guildIds = new Set([mainGuildId]);
+        const dataFilePath = getPathRelativeToProjectRoot(cfg.getString('database_file'));
+        if (existsSync(dataFilePath)) new GuildRepository(dataFilePath).getIds().forEach(id => guildIds.add(id));
+        for (const guildId of guildIds) this.registerGuildCommands(cfg, guildId);
     }
 }
\ No newline at end of file
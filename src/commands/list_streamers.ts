@@ -0,0 +1,279 @@
+import { Command } from './command_manager.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import {
+    Guild, GuildMember, MessageActionRow, MessageButton, MessageEmbed, MessageSelectMenu, WebhookEditMessageOptions,
+} from 'discord.js';
+import { Bot } from '../index.js';
+import { Streamer } from '../streamer_repository.js';
+import { TwitchApi } from '../twitch/twitch_api.js';
+
+/** Number of streamers shown in each page of the list */
+const PAGE_SIZE = 10;
+
+/** State of a listed streamer, 'invalid' means that some of his subscriptions or his member are missing */
+type EntryState = 'valid' | 'invalid' | 'broken' | 'disabled';
+
+/** Filters chosen with the options of the command, they are kept in the custom ids of the buttons */
+interface ListFilter {
+    /** Which streamers to show, 'invalid' includes the broken ones */
+    show: 'all' | 'live' | 'invalid';
+    /** Key of the tracked category that the streams of the listed streamers must be in, empty for any */
+    category: string;
+}
+
+/** A Twitch channel shown in the list, either tracked by the guild or with subscriptions not tracked by any guild */
+interface ListEntry {
+    twitchId: string;
+    login: string;
+    /** The streamer of the guild, undefined if the channel has orphaned subscriptions only */
+    streamer?: Streamer;
+    /** The member linked to the streamer, undefined for external streamers or if he is not in the guild */
+    member?: GuildMember;
+    /** Status of each type of subscription, 'missing' if it has not been created */
+    subscriptions: Record<string, string>;
+    state: EntryState;
+    /** The online stream, undefined if the streamer is offline */
+    live?: { category: string, trackedCategory?: string };
+}
+
+/** Order of the sections of the list and their titles */
+const SECTIONS: [(entry: ListEntry) => boolean, string][] = [
+    [entry => entry.streamer?.discordUserId !== undefined, 'Members'],
+    [entry => entry.streamer !== undefined && entry.streamer.discordUserId === undefined, 'External streamers'],
+    [entry => entry.streamer === undefined, 'Not registered'],
+];
+
+const STATE_ICONS: Record<EntryState, string> = { valid: '🟢', invalid: '🟠', broken: '🔴', disabled: '⚫' };
+
+/**
+ * Fetches the members of the guild with the given ids, making one request every 100 members.
+ * @param guild the guild of the members
+ * @param userIds the ids of the members
+ */
+const fetchMembers = async (guild: Guild, userIds: string[]) => {
+    const members = new Map<string, GuildMember>();
+    for (let i = 0; i < userIds.length; i += 100) {
+        const fetched = await guild.members.fetch({ user: userIds.slice(i, i + 100) });
+        fetched.forEach(member => members.set(member.id, member));
+    }
+    return members;
+};
+
+/**
+ * Gets the entries of the list for a guild: its streamers and the channels whose subscriptions are not tracked by any
+ * guild. The subscriptions are fetched from Twitch, with their logins looked up in bulk.
+ * @param bot the bot instance
+ * @param guild the guild whose streamers are listed
+ * @return the entries sorted by section and login, or undefined if the subscriptions could not be fetched
+ */
+const getEntries = async (bot: Bot, guild: Guild): Promise<ListEntry[] | undefined> => {
+    const subs = await bot.twitchApi?.getAllSubscriptions(true, true);
+    if (!subs) return undefined;
+
+    const streamers = bot.streamers.getAll(guild.id);
+    const members = await fetchMembers(guild, streamers
+        .map(streamer => streamer.discordUserId)
+        .filter((id): id is string => id !== undefined));
+    const orphans = Object.keys(subs).filter(id => bot.streamers.getAllById(id).length === 0);
+    const manager = bot.dispatcher?.getManager(guild.id);
+
+    const entries: ListEntry[] = [];
+    for (const twitchId of [...streamers.map(streamer => streamer.twitchId), ...orphans]) {
+        const streamer = streamers.find(s => s.twitchId === twitchId);
+        const subscriptions: Record<string, string> = {};
+        for (const type of TwitchApi.SUBSCRIPTION_TYPES) {
+            const sub = subs[twitchId]?.[type];
+            subscriptions[type] = sub !== undefined && typeof sub !== 'string' ? sub.status : 'missing';
+        }
+        const member = streamer?.discordUserId ? members.get(streamer.discordUserId) : undefined;
+
+        let state: EntryState;
+        if (streamer?.broken) state = 'broken';
+        else if (streamer && !streamer.enabled) state = 'disabled';
+        else if (!streamer || Object.values(subscriptions).some(status => status !== 'enabled')
+            || (streamer.discordUserId && !member)) state = 'invalid';
+        else state = 'valid';
+
+        entries.push({
+            twitchId: twitchId,
+            login: streamer?.login ?? subs[twitchId]?.name as string | undefined ?? twitchId,
+            streamer: streamer,
+            member: member,
+            subscriptions: subscriptions,
+            state: state,
+            live: manager?.getLiveStream(twitchId),
+        });
+    }
+
+    const section = (entry: ListEntry) => SECTIONS.findIndex(([matches]) => matches(entry));
+    return entries.sort((a, b) => section(a) - section(b) || a.login.localeCompare(b.login));
+};
+
+/**
+ * Gets the entries that match the filter.
+ * @param entries all the entries
+ * @param filter the filter chosen in the command
+ */
+const applyFilter = (entries: ListEntry[], filter: ListFilter) => entries.filter(entry => {
+    if (filter.show === 'live' && !entry.live) return false;
+    if (filter.show === 'invalid' && entry.state !== 'invalid' && entry.state !== 'broken') return false;
+    return filter.category === '' || entry.live?.trackedCategory === filter.category;
+});
+
+/**
+ * Builds the custom id of a component of the list, keeping the filter so that it survives between interactions.
+ * @param action the action of the component, 'page' or 'details'
+ * @param filter the filter of the list
+ * @param target the page to show, or the page to go back to from the details of a streamer
+ */
+const customId = (action: string, filter: ListFilter, target: string | number) =>
+    `liststreamers:${action}:${filter.show}:${encodeURIComponent(filter.category)}:${target}`;
+
+/**
+ * Formats the line of an entry in the list.
+ * @param entry the entry to format
+ */
+const formatEntry = (entry: ListEntry) => {
+    const user = entry.member ? `${entry.member} / ` : entry.streamer?.discordUserId ? 'member not found / ' : '';
+    const live = entry.live ? ` · 🔴 live in ${entry.live.category}` : '';
+    return `${STATE_ICONS[entry.state]} ${user}[${entry.login}](https://www.twitch.tv/${entry.login}): ${entry.state}${live}`;
+};
+
+/**
+ * Renders a page of the list, with the buttons to move between pages and a menu to see the details of a streamer.
+ * @param entries the entries that match the filter
+ * @param filter the filter of the list
+ * @param page the index of the page, it is clamped to the existing pages
+ */
+const renderPage = (entries: ListEntry[], filter: ListFilter, page: number): WebhookEditMessageOptions => {
+    const pages = Math.max(1, Math.ceil(entries.length / PAGE_SIZE));
+    page = Math.min(Math.max(page, 0), pages - 1);
+    const pageEntries = entries.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+    const lines: string[] = [];
+    let lastSection: string | undefined = undefined;
+    for (const entry of pageEntries) {
+        const [, title] = SECTIONS.find(([matches]) => matches(entry)) ?? [];
+        if (title !== lastSection) lines.push(`**${title}**`);
+        lastSection = title;
+        lines.push(formatEntry(entry));
+    }
+    if (lines.length === 0) lines.push('No streamers match the filter');
+
+    const filters = [filter.show !== 'all' ? filter.show : undefined, filter.category || undefined]
+        .filter(text => text !== undefined);
+    const embed = new MessageEmbed()
+        .setColor('GREEN')
+        .setTitle(`Streamers${filters.length > 0 ? ` (${filters.join(', ')})` : ''}`)
+        .setDescription(lines.join('\n'))
+        .setFooter({ text: `Page ${page + 1}/${pages} · Total: ${entries.length}` });
+
+    const components = [new MessageActionRow().addComponents(
+        new MessageButton().setCustomId(customId('page', filter, page - 1)).setLabel('Previous')
+            .setStyle('SECONDARY').setDisabled(page === 0),
+        new MessageButton().setCustomId(customId('page', filter, page + 1)).setLabel('Next')
+            .setStyle('SECONDARY').setDisabled(page === pages - 1),
+        new MessageButton().setCustomId(customId('page', filter, page)).setLabel('Refresh').setStyle('PRIMARY'))];
+    if (pageEntries.length > 0) {
+        components.push(new MessageActionRow().addComponents(new MessageSelectMenu()
+            .setCustomId(customId('details', filter, page))
+            .setPlaceholder('Show the details of a streamer')
+            .addOptions(pageEntries.map(entry => ({ label: entry.login, value: entry.twitchId, description: entry.state })))));
+    }
+    return { embeds: [embed], components: components };
+};
+
+/**
+ * Formats a time for the detail page of a streamer.
+ * @param time the time in milliseconds, undefined if it is not known
+ */
+const formatTime = (time?: number) => time !== undefined ? `<t:${Math.floor(time / 1000)}:f> (<t:${Math.floor(time / 1000)}:R>)` : 'Never';
+
+/**
+ * Renders the detail page of a streamer, with a button to go back to the page of the list he was in.
+ * @param entry the entry of the streamer
+ * @param filter the filter of the list
+ * @param page the index of the page to go back to
+ */
+const renderDetails = (entry: ListEntry, filter: ListFilter, page: number): WebhookEditMessageOptions => {
+    let member;
+    if (!entry.streamer) member = 'Not registered';
+    else if (!entry.streamer.discordUserId) member = 'External streamer';
+    else member = entry.member ? `${entry.member}` : `<@${entry.streamer.discordUserId}> (not in the server)`;
+
+    const embed = new MessageEmbed()
+        .setColor(entry.state === 'valid' ? 'GREEN' : entry.state === 'invalid' ? 'ORANGE' : 'RED')
+        .setTitle(entry.streamer?.displayName ?? entry.login)
+        .setURL(`https://www.twitch.tv/${entry.login}`)
+        .addField('Member', member, true)
+        .addField('State', `${STATE_ICONS[entry.state]} ${entry.state}`, true)
+        .addField('Stream', entry.live ? `🔴 live in ${entry.live.category}` : 'Offline', true)
+        .addField('Last online', formatTime(entry.streamer?.lastOnlineAt), true)
+        .addField('Last offline', formatTime(entry.streamer?.lastOfflineAt), true)
+        .addField('Added', formatTime(entry.streamer?.addedAt), true)
+        .addField('Subscriptions', Object.entries(entry.subscriptions)
+            .map(([type, status]) => `${status === 'enabled' ? '✅' : '❌'} \`${type}\`: ${status}`).join('\n'))
+        .setFooter({ text: `Twitch id: ${entry.twitchId}` });
+
+    const buttons = new MessageActionRow().addComponents(
+        new MessageButton().setCustomId(customId('page', filter, page)).setLabel('Back').setStyle('SECONDARY'));
+    return { embeds: [embed], components: [buttons] };
+};
+
+export const listStreamers: Command = {
+    data: new SlashCommandBuilder()
+        .setName('liststreamers')
+        .setDescription('Shows the registered streamers and the state of their subscriptions')
+        .addStringOption(option => option.setName('show').setDescription('Which streamers to show (default: all)')
+            .addChoice('All', 'all').addChoice('Live', 'live').addChoice('Invalid or broken', 'invalid'))
+        .addStringOption(option => option.setName('category').setDescription('Show only the streamers live in this category of the config')) as SlashCommandBuilder,
+    permission: 'admin',
+    execute: async (bot, interaction) => {
+        if (!bot || !interaction.guild) return;
+
+        const filter: ListFilter = {
+            show: (interaction.options.getString('show') ?? 'all') as ListFilter['show'],
+            category: interaction.options.getString('category') ?? '',
+        };
+        const cfg = bot.getGuildConfig(interaction.guild.id);
+        if (filter.category !== '' && !(cfg.has('categories') && [...cfg.getSection('categories')].includes(filter.category))) {
+            await interaction.reply({ content: `There is no category with key '${filter.category}'`, ephemeral: true });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+        const entries = await getEntries(bot, interaction.guild);
+        if (!entries) {
+            await interaction.editReply({ content: 'Could not fetch the subscriptions from Twitch' });
+            return;
+        }
+        await interaction.editReply(renderPage(applyFilter(entries, filter), filter, 0));
+    },
+    handleButton: async (bot, interaction) => {
+        if (!bot || !interaction.guild) return;
+
+        const [, , show, category, page] = interaction.customId.split(':');
+        const filter: ListFilter = { show: show as ListFilter['show'], category: decodeURIComponent(category) };
+        await interaction.deferUpdate();
+        const entries = await getEntries(bot, interaction.guild);
+        if (!entries) {
+            await interaction.editReply({ content: 'Could not fetch the subscriptions from Twitch', embeds: [], components: [] });
+            return;
+        }
+        await interaction.editReply(renderPage(applyFilter(entries, filter), filter, Number(page)));
+    },
+    handleSelectMenu: async (bot, interaction) => {
+        if (!bot || !interaction.guild) return;
+
+        const [, , show, category, page] = interaction.customId.split(':');
+        const filter: ListFilter = { show: show as ListFilter['show'], category: decodeURIComponent(category) };
+        await interaction.deferUpdate();
+        const entries = await getEntries(bot, interaction.guild);
+        const entry = entries?.find(e => e.twitchId === interaction.values[0]);
+        if (!entry) {
+            await interaction.editReply({ content: 'This streamer is no longer listed', embeds: [], components: [] });
+            return;
+        }
+        await interaction.editReply(renderDetails(entry, filter, Number(page)));
+    },
+};
@@ -0,0 +1,84 @@
+import { Command } from './command_manager.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { CommandInteraction, GuildMember } from 'discord.js';
+import { Bot } from '../index.js';
+import { Streamer } from '../streamer_repository.js';
+import log from '../log.js';
+
+const logger = log('NotifyCommands');
+
+/**
+ * Gets the follower role of the streamer, creating it if he doesn't have one yet or if it has been deleted.
+ * @param bot the bot instance
+ * @param interaction the interaction of the command
+ * @param streamer the streamer to get the role for
+ */
+const getFollowerRole = async (bot: Bot, interaction: CommandInteraction, streamer: Streamer) => {
+    const guild = interaction.guild;
+    if (!guild) return undefined;
+    if (streamer.followerRoleId) {
+        const role = await guild.roles.fetch(streamer.followerRoleId);
+        if (role) return role;
+    }
+
+    const role = await guild.roles.create({
+        name: `${streamer.displayName} followers`,
+        mentionable: false,
+        reason: `Follower role for ${streamer.login}`,
+    });
+    bot.streamers.setFollowerRole(streamer.guildId, streamer.twitchId, role.id);
+    logger.info(`Created follower role for ${streamer.login}`);
+    return role;
+};
+
+const subscribe = async (bot: Bot, interaction: CommandInteraction, streamer: Streamer) => {
+    await interaction.deferReply({ ephemeral: true });
+    const role = await getFollowerRole(bot, interaction, streamer);
+    if (!role) return;
+    await (interaction.member as GuildMember).roles.add(role);
+    await interaction.editReply({ content: `You will be notified when ${streamer.displayName} goes live` });
+};
+
+const unsubscribe = async (bot: Bot, interaction: CommandInteraction, streamer: Streamer) => {
+    const member = interaction.member as GuildMember;
+    if (!streamer.followerRoleId || !member.roles.cache.has(streamer.followerRoleId)) {
+        await interaction.reply({ content: `You are not subscribed to ${streamer.displayName}`, ephemeral: true });
+        return;
+    }
+    await member.roles.remove(streamer.followerRoleId);
+    await interaction.reply({ content: `You will no longer be notified when ${streamer.displayName} goes live`, ephemeral: true });
+};
+
+export const notify: Command = {
+    data: new SlashCommandBuilder()
+        .setName('notify')
+        .setDescription('Manages the notifications you receive when streamers go live')
+        .addSubcommand(sub => sub
+            .setName('subscribe')
+            .setDescription('Get mentioned when a streamer goes live')
+            .addStringOption(option => option.setName('streamer').setDescription('The login of the streamer on Twitch').setRequired(true)))
+        .addSubcommand(sub => sub
+            .setName('unsubscribe')
+            .setDescription('Stop being mentioned when a streamer goes live')
+            .addStringOption(option => option.setName('streamer').setDescription('The login of the streamer on Twitch').setRequired(true))) as SlashCommandBuilder,
+    permission: 'everyone',
+    execute: async (bot, interaction) => {
+        if (!bot) return;
+
+        const login = interaction.options.getString('streamer') as string;
+        const streamer = bot.streamers.getByLogin(interaction.guildId as string, login);
+        if (!streamer) {
+            await interaction.reply({ content: `There is no registered streamer with login '${login}'`, ephemeral: true });
+            return;
+        }
+
+        switch (interaction.options.getSubcommand()) {
+        case 'subscribe':
+            await subscribe(bot, interaction, streamer);
+            break;
+        case 'unsubscribe':
+            await unsubscribe(bot, interaction, streamer);
+            break;
+        }
+    },
+};
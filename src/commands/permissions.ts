@@ -0,0 +1,36 @@
+import { GuildMember, Interaction, PermissionResolvable, Permissions } from 'discord.js';
+import { Config } from '../config.js';
+
+/** Permission level required to use a command, 'admin' commands can be used only by the members allowed in the config */
+export type PermissionLevel = 'everyone' | 'admin';
+
+/**
+ * Checks if the user that created the interaction is allowed to act at the given permission level. Members with
+ * the Administrator permission are always allowed, the others need to be in the 'permissions' section of the config.
+ * @param cfg the config of the bot
+ * @param interaction the interaction to check
+ * @param level the required permission level
+ */
+export function hasPermission(cfg: Config, interaction: Interaction, level: PermissionLevel): boolean {
+    if (level === 'everyone') return true;
+    if (interaction.memberPermissions?.has(Permissions.FLAGS.ADMINISTRATOR)) return true;
+    if (!cfg.has('permissions')) return false;
+
+    const sect = cfg.getSection('permissions');
+    if (sect.has('admin_users') && sect.getStringArray('admin_users').includes(interaction.user.id)) return true;
+
+    const member = interaction.member;
+    if (!member || !sect.has('admin_roles')) return false;
+    const memberRoles = member instanceof GuildMember ? [...member.roles.cache.keys()] : member.roles;
+    return sect.getStringArray('admin_roles').some(role => memberRoles.includes(role));
+}
+
+/**
+ * Gets the default member permissions to set on admin commands, as a bitfield string, or undefined if not set.
+ * @param cfg the config of the bot
+ */
+export function getDefaultMemberPermissions(cfg: Config): string | undefined {
+    if (!cfg.has(['permissions', 'default_member_permissions'])) return undefined;
+    const permission = cfg.getSection('permissions').getString('default_member_permissions');
+    return Permissions.resolve(permission as PermissionResolvable).toString();
+}
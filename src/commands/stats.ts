@@ -0,0 +1,89 @@
+import { Command } from './command_manager.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import { MessageEmbed } from 'discord.js';
+import { formatDuration } from '../helper.js';
+import { clipSessions, getPeriod, PERIOD_CHOICES, summarizeByStreamer, summarizeSessions } from '../stats.js';
+
+/** Number of categories and streamers shown in the rankings */
+const TOP_SIZE = 5;
+
+/**
+ * Formats a ranking of durations, one line per entry.
+ * @param entries the names with their duration in milliseconds, sorted from the longest
+ */
+const formatRanking = (entries: [string, number][]) => entries.slice(0, TOP_SIZE)
+    .map(([name, duration], i) => `${i + 1}. ${name}: ${formatDuration(duration)}`).join('\n');
+
+export const stats: Command = {
+    data: new SlashCommandBuilder()
+        .setName('stats')
+        .setDescription('Shows statistics about the streams of the server')
+        .addSubcommand(sub => sub
+            .setName('streamer')
+            .setDescription('Shows the statistics of a streamer')
+            .addStringOption(option => option.setName('twitch_login').setDescription('The login of the streamer on Twitch').setRequired(true))
+            .addStringOption(option => option.setName('period').setDescription('The period to show (default: last 7 days)')
+                .addChoices(PERIOD_CHOICES)))
+        .addSubcommand(sub => sub
+            .setName('server')
+            .setDescription('Shows the statistics of all the streamers of the server')
+            .addStringOption(option => option.setName('period').setDescription('The period to show (default: last 7 days)')
+                .addChoices(PERIOD_CHOICES))) as SlashCommandBuilder,
+    permission: 'everyone',
+    execute: async (bot, interaction) => {
+        if (!bot) return;
+
+        const guildId = interaction.guildId as string;
+        const period = getPeriod(interaction.options.getString('period') ?? 'week');
+        const sessions = clipSessions(bot.sessions.getSessions(guildId, period.from, period.to), period);
+
+        switch (interaction.options.getSubcommand()) {
+        case 'streamer': {
+            const login = (interaction.options.getString('twitch_login') as string).toLowerCase();
+            // Match the id of the registered streamer first, so that the sessions before a rename are included
+            const twitchId = bot.streamers.getByLogin(guildId, login)?.twitchId;
+            const streamerSessions = sessions.filter(session => twitchId ? session.twitchId === twitchId : session.login === login);
+            if (streamerSessions.length === 0) {
+                await interaction.reply({ content: `${login} has not streamed in this period (${period.label})`, ephemeral: true });
+                return;
+            }
+
+            const summary = summarizeSessions(streamerSessions);
+            const last = streamerSessions[streamerSessions.length - 1];
+            const embed = new MessageEmbed()
+                .setColor('PURPLE')
+                .setTitle(`Stats of ${last.displayName}`)
+                .setURL(`https://www.twitch.tv/${last.login}`)
+                .setDescription(`Period: ${period.label}`)
+                .addField('Time streamed', formatDuration(summary.duration), true)
+                .addField('Streams', `${summary.sessions}`, true)
+                .addField('Longest stream', formatDuration(summary.longest ? summary.longest.endedAt - summary.longest.startedAt : 0), true)
+                .addField('Peak viewers', `${summary.peakViewers}`, true)
+                .addField('Average viewers', summary.averageViewers !== undefined ? `${summary.averageViewers}` : 'Unknown', true)
+                .addField('Top categories', formatRanking(summary.categories) || 'None');
+            await interaction.reply({ embeds: [embed] });
+            break;
+        }
+        case 'server': {
+            if (sessions.length === 0) {
+                await interaction.reply({ content: `Nobody has streamed in this period (${period.label})`, ephemeral: true });
+                return;
+            }
+
+            const summary = summarizeSessions(sessions);
+            const streamers = summarizeByStreamer(sessions);
+            const embed = new MessageEmbed()
+                .setColor('PURPLE')
+                .setTitle(`Stats of ${interaction.guild?.name ?? 'the server'}`)
+                .setDescription(`Period: ${period.label}`)
+                .addField('Time streamed', formatDuration(summary.duration), true)
+                .addField('Streams', `${summary.sessions}`, true)
+                .addField('Streamers', `${streamers.length}`, true)
+                .addField('Top streamers', formatRanking(streamers.map(s => [s.displayName, s.duration])))
+                .addField('Top categories', formatRanking(summary.categories) || 'None');
+            await interaction.reply({ embeds: [embed] });
+            break;
+        }
+        }
+    },
+};
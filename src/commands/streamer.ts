@@ -0,0 +1,336 @@
+import { Command } from './command_manager.js';
+import { SlashCommandBuilder } from '@discordjs/builders';
+import {
+    ButtonInteraction, CommandInteraction, MessageActionRow, MessageButton, MessageEmbed, Role, TextChannel,
+} from 'discord.js';
+import Keyv from 'keyv';
+import { Bot } from '../index.js';
+import log from '../log.js';
+import { hasPermission } from './permissions.js';
+import { EmbedOverrides } from '../streamer_repository.js';
+import { StreamManager } from '../stream_manager.js';
+import { TemplateError } from '../template.js';
+
+const logger = log('StreamerCommands');
+
+/** Request made by a member to link his Twitch account, waiting for the approval of an admin */
+interface LinkRequest {
+    twitchLogin: string;
+    /** Id of the message sent in the moderation channel */
+    messageId: string;
+}
+
+/** Time after which a preview can no longer be saved, as its buttons can't be used once the interaction expires */
+const PREVIEW_TTL = 15 * 60 * 1000;
+
+/**
+ * Embed overrides waiting to be saved after their preview, mapped by the id of the interaction that created the
+ * preview, so that each preview of a member saves its own changes
+ */
+const pendingEmbeds = new Map<string, { guildId: string, twitchId: string, embed?: EmbedOverrides }>();
+
+/**
+ * Key/Value store containing pending link requests, mapped by '<guild id>:<user id>' of the Discord user that made
+ * them, as a member can request a link in each guild
+ */
+let linkRequests: Keyv | undefined = undefined;
+
+const getLinkRequests = (bot: Bot): Keyv => {
+    if (!linkRequests) linkRequests = new Keyv('sqlite://' + bot.dataFilePath, { namespace: 'linkRequests' });
+    return linkRequests;
+};
+
+const cancelRequest = async (bot: Bot, interaction: CommandInteraction, request: LinkRequest) => {
+    try {
+        const cfg = bot.getGuildConfig(interaction.guildId as string);
+        const channel = await interaction.client.channels.fetch(cfg.getString('moderation_channel'));
+        if (!(channel instanceof TextChannel)) return;
+        const msg = await channel.messages.fetch(request.messageId);
+        const embed = new MessageEmbed(msg.embeds[0]).setColor('GREY').addField('Closed', 'Cancelled by the member');
+        await msg.edit({ embeds: [embed], components: [] });
+    } catch (e) {
+        logger.warn(`Could not close request message for ${request.twitchLogin}: ${e}`);
+    }
+};
+
+const link = async (bot: Bot, interaction: CommandInteraction) => {
+    const guildId = interaction.guildId as string;
+    const login = (interaction.options.getString('twitch_login') as string).toLowerCase();
+    if (bot.streamers.getByDiscordUser(guildId, interaction.user.id)) {
+        await interaction.reply({ content: 'Your account is already linked, use /streamer unlink first', ephemeral: true });
+        return;
+    }
+    if (bot.streamers.getByLogin(guildId, login)) {
+        await interaction.reply({ content: 'This Twitch account is already linked to another member', ephemeral: true });
+        return;
+    }
+    const requests = getLinkRequests(bot);
+    if (await requests.get(`${guildId}:${interaction.user.id}`)) {
+        await interaction.reply({ content: 'You already have a pending request, use /streamer unlink to cancel it', ephemeral: true });
+        return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+    if (!await bot.twitchApi?.getUserID(login)) {
+        await interaction.editReply({ content: `There is no Twitch user with login '${login}'` });
+        return;
+    }
+
+    const channel = await interaction.client.channels.fetch(bot.getGuildConfig(guildId).getString('moderation_channel'));
+    if (!(channel instanceof TextChannel)) throw Error('Invalid id for "moderation_channel", check config');
+
+    const embed = new MessageEmbed()
+        .setColor('YELLOW')
+        .setTitle('Streamer link request')
+        .setDescription(`${interaction.user} wants to link https://www.twitch.tv/${login}`)
+        .setTimestamp();
+    const buttons = new MessageActionRow().addComponents(
+        new MessageButton().setCustomId(`streamer:approve:${interaction.user.id}`).setLabel('Approve').setStyle('SUCCESS'),
+        new MessageButton().setCustomId(`streamer:reject:${interaction.user.id}`).setLabel('Reject').setStyle('DANGER'));
+    const msg = await channel.send({ embeds: [embed], components: [buttons] });
+
+    const request: LinkRequest = { twitchLogin: login, messageId: msg.id };
+    await requests.set(`${guildId}:${interaction.user.id}`, request);
+    logger.info(`${interaction.user.tag} requested to link Twitch account ${login}`);
+    await interaction.editReply({ content: 'Your request has been sent to the admins' });
+};
+
+const unlink = async (bot: Bot, interaction: CommandInteraction) => {
+    const guildId = interaction.guildId as string;
+    const streamer = bot.streamers.getByDiscordUser(guildId, interaction.user.id);
+    if (!streamer) {
+        const requests = getLinkRequests(bot);
+        const request: LinkRequest | undefined = await requests.get(`${guildId}:${interaction.user.id}`);
+        if (request) {
+            await requests.delete(`${guildId}:${interaction.user.id}`);
+            await cancelRequest(bot, interaction, request);
+            await interaction.reply({ content: 'Your pending request has been cancelled', ephemeral: true });
+        } else {
+            await interaction.reply({ content: 'Your account is not linked', ephemeral: true });
+        }
+        return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+    await bot.unregisterStreamer(streamer);
+
+    const member = await interaction.guild?.members.fetch(interaction.user.id);
+    await member?.roles.remove(bot.getGuildConfig(guildId).getString('streamer_role'));
+    logger.info(`${interaction.user.tag} unlinked Twitch account ${streamer.login}`);
+    await interaction.editReply({ content: 'Your Twitch account has been unlinked' });
+};
+
+const status = async (bot: Bot, interaction: CommandInteraction) => {
+    const guildId = interaction.guildId as string;
+    const streamer = bot.streamers.getByDiscordUser(guildId, interaction.user.id);
+    let content;
+    if (streamer) {
+        content = `Your account is linked to https://www.twitch.tv/${streamer.login}`;
+    } else {
+        const request: LinkRequest | undefined = await getLinkRequests(bot).get(`${guildId}:${interaction.user.id}`);
+        if (request) content = `Your request to link '${request.twitchLogin}' is waiting for approval`;
+        else content = 'Your account is not linked, use /streamer link to request it';
+    }
+    await interaction.reply({ content: content, ephemeral: true });
+};
+
+const pingRole = async (bot: Bot, interaction: CommandInteraction) => {
+    const guildId = interaction.guildId as string;
+    const streamer = bot.streamers.getByDiscordUser(guildId, interaction.user.id);
+    if (!streamer) {
+        await interaction.reply({ content: 'Your account is not linked, use /streamer link to request it', ephemeral: true });
+        return;
+    }
+
+    const role = interaction.options.getRole('role') as Role | null;
+    if (!role) {
+        bot.streamers.setPingRole(guildId, streamer.twitchId, undefined);
+        await interaction.reply({ content: 'Your alerts will mention the default role', ephemeral: true });
+        return;
+    }
+
+    // Members can choose only roles approved by the admins, so that alerts can't be used to ping everyone
+    const cfg = bot.getGuildConfig(guildId);
+    const allowedRoles = cfg.has('ping_roles') ? cfg.getStringArray('ping_roles') : [];
+    if (role.id !== streamer.followerRoleId && !allowedRoles.includes(role.id)) {
+        await interaction.reply({ content: `${role} can't be mentioned in alerts`, ephemeral: true });
+        return;
+    }
+    bot.streamers.setPingRole(guildId, streamer.twitchId, role.id);
+    logger.info(`${interaction.user.tag} set ping role for ${streamer.login} to ${role.name}`);
+    await interaction.reply({ content: `Your alerts will mention ${role}`, ephemeral: true });
+};
+
+const editEmbed = async (bot: Bot, interaction: CommandInteraction) => {
+    const guildId = interaction.guildId as string;
+    const login = interaction.options.getString('streamer');
+    if (login && !hasPermission(bot.getGuildConfig(guildId), interaction, 'admin')) {
+        await interaction.reply({ content: 'Only admins can edit the alerts of other streamers', ephemeral: true });
+        return;
+    }
+    const target = login ? bot.streamers.getByLogin(guildId, login) : bot.streamers.getByDiscordUser(guildId, interaction.user.id);
+    if (!target) {
+        const content = login ? `There is no registered streamer with login '${login}'` : 'Your account is not linked, use /streamer link to request it';
+        await interaction.reply({ content: content, ephemeral: true });
+        return;
+    }
+
+    let overrides: EmbedOverrides | undefined = undefined;
+    if (!interaction.options.getBoolean('reset')) {
+        overrides = { ...target.embed };
+        const color = interaction.options.getString('color');
+        if (color !== null) overrides.color = color;
+        const title = interaction.options.getString('title');
+        if (title !== null) overrides.title = title;
+        const description = interaction.options.getString('description');
+        if (description !== null) overrides.description = description.replace(/\\n/g, '\n');
+        const imageSize = interaction.options.getString('image_size');
+        if (imageSize !== null) overrides.imageSize = imageSize;
+        try {
+            StreamManager.validateEmbedOverrides(overrides);
+        } catch (e) {
+            if (!(e instanceof TemplateError)) throw e;
+            await interaction.reply({ content: e.message, ephemeral: true });
+            return;
+        }
+    }
+
+    const manager = bot.dispatcher?.getManager(guildId);
+    if (!manager) {
+        await interaction.reply({ content: 'The alerts of this server are not configured yet', ephemeral: true });
+        return;
+    }
+    await interaction.deferReply({ ephemeral: true });
+    const preview = await manager.createPreviewEmbed(target, overrides);
+    const nonce = interaction.id;
+    pendingEmbeds.set(nonce, { guildId: guildId, twitchId: target.twitchId, embed: overrides });
+    setTimeout(() => pendingEmbeds.delete(nonce), PREVIEW_TTL);
+    const buttons = new MessageActionRow().addComponents(
+        new MessageButton().setCustomId(`streamer:embed_save:${interaction.user.id}:${nonce}`).setLabel('Save').setStyle('SUCCESS'),
+        new MessageButton().setCustomId(`streamer:embed_cancel:${interaction.user.id}:${nonce}`).setLabel('Cancel').setStyle('SECONDARY'));
+    await interaction.editReply({ content: `Preview of the alerts of ${target.displayName}`, embeds: [preview], components: [buttons] });
+};
+
+const handleEmbedButton = async (bot: Bot, interaction: ButtonInteraction, action: string, userId: string, nonce: string) => {
+    if (interaction.user.id !== userId) {
+        await interaction.reply({ content: 'This preview belongs to another member', ephemeral: true });
+        return;
+    }
+    const pending = pendingEmbeds.get(nonce);
+    pendingEmbeds.delete(nonce);
+    if (!pending) {
+        await interaction.update({ content: 'This preview has expired, use /streamer embed again', components: [] });
+        return;
+    }
+    if (action === 'embed_save') {
+        bot.streamers.setEmbed(pending.guildId, pending.twitchId, pending.embed);
+        logger.info(`${interaction.user.tag} edited the alert format of ${pending.twitchId}`);
+        await interaction.update({ content: 'The format of the alerts has been saved', components: [] });
+    } else {
+        await interaction.update({ content: 'The changes have been discarded', embeds: [], components: [] });
+    }
+};
+
+export const streamer: Command = {
+    data: new SlashCommandBuilder()
+        .setName('streamer')
+        .setDescription('Manages the link between your Discord and Twitch accounts')
+        .addSubcommand(sub => sub
+            .setName('link')
+            .setDescription('Requests to link your Twitch account, an admin will need to approve it')
+            .addStringOption(option => option.setName('twitch_login').setDescription('Your login on Twitch').setRequired(true)))
+        .addSubcommand(sub => sub
+            .setName('unlink')
+            .setDescription('Unlinks your Twitch account or cancels your pending request'))
+        .addSubcommand(sub => sub
+            .setName('status')
+            .setDescription('Shows the status of your Twitch account link'))
+        .addSubcommand(sub => sub
+            .setName('pingrole')
+            .setDescription('Sets the role mentioned in your alerts')
+            .addRoleOption(option => option.setName('role').setDescription('The role to mention, leave empty to use the default one')))
+        .addSubcommand(sub => sub
+            .setName('embed')
+            .setDescription('Customizes the format of your alerts, showing a preview before saving')
+            .addStringOption(option => option.setName('color').setDescription('Color of the embed, like #FF5733'))
+            .addStringOption(option => option.setName('title').setDescription('Title template, like ${name} is live!'))
+            .addStringOption(option => option.setName('description').setDescription('Description template, use \\n for new lines'))
+            .addStringOption(option => option.setName('image_size').setDescription('Size of the stream preview, like 440x248, or none'))
+            .addBooleanOption(option => option.setName('reset').setDescription('Removes all customizations'))
+            .addStringOption(option => option.setName('streamer').setDescription('Login of the streamer to edit, admins only'))) as SlashCommandBuilder,
+    permission: 'everyone',
+    execute: async (bot, interaction) => {
+        if (!bot) return;
+
+        switch (interaction.options.getSubcommand()) {
+        case 'link':
+            await link(bot, interaction);
+            break;
+        case 'unlink':
+            await unlink(bot, interaction);
+            break;
+        case 'status':
+            await status(bot, interaction);
+            break;
+        case 'pingrole':
+            await pingRole(bot, interaction);
+            break;
+        case 'embed':
+            await editEmbed(bot, interaction);
+            break;
+        }
+    },
+    handleButton: async (bot, interaction: ButtonInteraction) => {
+        if (!bot) return;
+
+        const [, action, userId, nonce] = interaction.customId.split(':');
+        if (action === 'embed_save' || action === 'embed_cancel') {
+            await handleEmbedButton(bot, interaction, action, userId, nonce);
+            return;
+        }
+
+        const guildId = interaction.guildId as string;
+        const cfg = bot.getGuildConfig(guildId);
+        if (!hasPermission(cfg, interaction, 'admin')) {
+            await interaction.reply({ content: 'You are not allowed to manage link requests', ephemeral: true });
+            return;
+        }
+
+        const requests = getLinkRequests(bot);
+        const request: LinkRequest | undefined = await requests.get(`${guildId}:${userId}`);
+        const embed = new MessageEmbed(interaction.message.embeds[0]);
+        if (!request) {
+            embed.setColor('GREY').addField('Closed', 'The request is no longer pending');
+            await interaction.update({ embeds: [embed], components: [] });
+            return;
+        }
+
+        if (action === 'approve') {
+            await interaction.deferUpdate();
+            // The account or the member may have been linked by an admin since the request has been made
+            if (bot.streamers.getByLogin(guildId, request.twitchLogin) || bot.streamers.getByDiscordUser(guildId, userId)) {
+                await requests.delete(`${guildId}:${userId}`);
+                embed.setColor('GREY').addField('Closed', 'The Twitch account or the member is already linked');
+                await interaction.editReply({ embeds: [embed], components: [] });
+                logger.info(`Closed link request of ${request.twitchLogin}, the account or the member is already linked`);
+                return;
+            }
+            const member = await interaction.guild?.members.fetch(userId);
+            if (!member) return;
+            if (!await bot.registerStreamer(guildId, request.twitchLogin, userId)) {
+                throw Error(`There is no Twitch user with login '${request.twitchLogin}'`);
+            }
+            await member.roles.add(cfg.getString('streamer_role'));
+            await requests.delete(`${guildId}:${userId}`);
+
+            embed.setColor('GREEN').addField('Approved by', `${interaction.user}`);
+            await interaction.editReply({ embeds: [embed], components: [] });
+            logger.info(`${interaction.user.tag} approved link of Twitch account ${request.twitchLogin}`);
+        } else {
+            await requests.delete(`${guildId}:${userId}`);
+            embed.setColor('RED').addField('Rejected by', `${interaction.user}`);
+            await interaction.update({ embeds: [embed], components: [] });
+            logger.info(`${interaction.user.tag} rejected link of Twitch account ${request.twitchLogin}`);
+        }
+    },
+};
@@ -1,5 +1,5 @@
 import log from './log.js';
-import { Document, parseDocument, parse, YAMLMap } from 'yaml';
+import { Document, parseDocument, YAMLMap, YAMLSeq } from 'yaml';
 import { existsSync, copyFileSync, readFileSync, writeFileSync } from 'fs';
 import { getPathRelativeToProjectRoot } from './helper.js';
 
@@ -16,11 +16,21 @@ export class Config {
     private readonly _root: string[];
     private readonly _doc: Document;
 
-    constructor(base?: Config, sectionKey?: string) {
-        if (base && sectionKey) {
+    /**
+     * Creates a config, reading config.yml if neither a base config nor a document are given.
+     * @param base the config that contains the section
+     * @param sectionKey the key or a string array representing the path of the section inside the base config
+     * @param doc the document to use instead of reading config.yml
+     */
+    constructor(base?: Config, sectionKey?: string | string[], doc?: Document) {
+        if (doc) {
+            this._root = [];
+            this._doc = doc;
+        } else if (base && sectionKey) {
             this._root = [];
             this._root.push(...base._root);
-            this._root.push(sectionKey);
+            if (typeof sectionKey === 'string') this._root.push(sectionKey);
+            else this._root.push(...sectionKey);
             this._doc = base._doc;
         } else {
             if (!existsSync(Config.CONFIG_FILE)) {
@@ -47,6 +57,52 @@ export class Config {
         return this._doc.getIn(this.getPath(key));
     }
 
+    /**
+     * Gets the plain value at the given key, converting sections and lists to objects and arrays.
+     * @param key the key or a string array representing the path of the value
+     * @private
+     */
+    private getValue(key: string | string[]): unknown {
+        const value = this.getNode(key);
+        return value instanceof YAMLMap || value instanceof YAMLSeq ? value.toJSON() : value;
+    }
+
+    /** Gets the syntax errors found while parsing the config file */
+    getErrors(): string[] {
+        return this._doc.errors.map(error => error.message.split('\n')[0]);
+    }
+
+    /**
+     * Checks if the value at the given key is the same in this config and in another one.
+     * @param other the config to compare with
+     * @param key the key or a string array representing the path of the value
+     */
+    isEqual(other: Config, key: string | string[]): boolean {
+        return JSON.stringify(this.getValue(key)) === JSON.stringify(other.getValue(key));
+    }
+
+    /**
+     * Checks if a value is present at the given key.
+     * @param key the key or a string array representing the path of the value
+     */
+    has(key: string | string[]): boolean {
+        return this._doc.hasIn(this.getPath(key));
+    }
+
+    /**
+     * Gets the type of the value at the given path.
+     * @param path a string array representing the path of the value
+     * @return 'string', 'number', 'boolean', 'section', 'list', 'null' or 'missing' if there is no value
+     */
+    getType(path: string[]): string {
+        if (!this.has(path)) return 'missing';
+        const value = this.getNode(path);
+        if (value instanceof YAMLMap) return 'section';
+        if (value instanceof YAMLSeq) return 'list';
+        if (value === null) return 'null';
+        return typeof value;
+    }
+
     getString(key: string): string {
         const value = this.getNode(key);
         if (typeof value === 'string') {
@@ -83,6 +139,17 @@ export class Config {
         }
     }
 
+    getStringArray(key: string): string[] {
+        const value = this.getNode(key);
+        if (value instanceof YAMLSeq) {
+            const items: unknown[] = value.toJSON();
+            if (items.every(item => typeof item === 'string')) return items as string[];
+            throw TypeError(`Config value with key '${key}' is not a list of strings`);
+        } else {
+            throw TypeError(`Config value with key '${key}' is of type '${typeof value}'`);
+        }
+    }
+
     getSection(key: string): Config {
         const value = this.getNode(key);
         if (value instanceof YAMLMap) {
@@ -93,39 +160,57 @@ export class Config {
     }
 
     /**
-     * Adds the value to the path and saves the changes to file.
-     * @param path a string array representing the path where to add the value
-     * @param value the value to be added
+     * Gets the sections contained in the list at the given path.
+     * @param path a string array representing the path of the list
      */
-    add(path: string[], value: unknown) {
-        this._doc.addIn(this.getPath(path), value);
-        writeFileSync(Config.CONFIG_FILE, this._doc.toString(), 'utf8');
+    getSectionList(path: string[]): Config[] {
+        const value = this.getNode(path);
+        if (value instanceof YAMLSeq) {
+            return value.items.map((item, i) => {
+                if (!(item instanceof YAMLMap)) throw TypeError(`Config value with key '${path.join('/')}/${i}' is not a section`);
+                return new Config(this, [...path, `${i}`]);
+            });
+        } else {
+            throw TypeError(`Config value with key '${path.join('/')}' is of type '${typeof value}'`);
+        }
     }
 
+    /**
+     * Creates a copy of the whole config with some values replaced, the file is not changed.
+     * @param values the values to set, mapped by their path from the root joined with '/'
+     * @param removed the keys of the root values to remove before setting the new ones
+     */
+    withValues(values: Record<string, unknown>, removed: string[] = []): Config {
+        const doc = this._doc.clone();
+        for (const key of removed) doc.deleteIn([key]);
+        for (const path in values) doc.setIn(path.split('/'), doc.createNode(values[path]));
+        return new Config(undefined, undefined, doc);
+    }
+
+    /**
+     * Removes the value at the path and saves the changes to file.
+     * @param path a string array representing the path of the value
+     */
     remove(path: string[]) {
         this._doc.deleteIn(this.getPath(path));
         writeFileSync(Config.CONFIG_FILE, this._doc.toString(), 'utf8');
     }
 
-    [Symbol.iterator]() {
-        // We need to parse this from file each time to ensure that every change made from any
-        // instance of Config (root and sections) is correctly reflected
-        let obj = parse(readFileSync(Config.CONFIG_FILE, 'utf8'));
-        for (const key of this._root) {
-            obj = obj[key];
-        }
-        const keys = Object.keys(obj);
-        let i = 0;
-        return {
-            next() {
-                if (i < keys.length) {
-                    const current = keys[i];
-                    i++;
-                    return { value: current, done: false };
-                } else {
-                    return { done: true };
-                }
-            },
-        };
+    /**
+     * Moves the value at a path to another one, keeping its comments, and saves the changes to file.
+     * @param from a string array representing the current path of the value
+     * @param to a string array representing the new path of the value, missing sections are created
+     */
+    move(from: string[], to: string[]) {
+        const node = this._doc.getIn(this.getPath(from), true);
+        this._doc.deleteIn(this.getPath(from));
+        this._doc.setIn(this.getPath(to), node);
+        writeFileSync(Config.CONFIG_FILE, this._doc.toString(), 'utf8');
+    }
+
+    [Symbol.iterator](): Iterator<string> {
+        const node = this._root.length > 0 ? this._doc.getIn(this._root) : this._doc.contents;
+        const keys = node instanceof YAMLMap ? node.items.map(pair => String(pair.key)) : [];
+        return keys[Symbol.iterator]();
     }
 }
\ No newline at end of file
@@ -0,0 +1,322 @@
+import { Config } from './config.js';
+import { CronError, CronExpression } from './cron.js';
+import { PERIOD_CHOICES } from './stats.js';
+
+/** Problem found while validating the config */
+export interface ConfigIssue {
+    /** Path of the value, like 'categories/category1/notification_channel' */
+    path: string;
+    message: string;
+    /** Suggestion on how to fix the problem */
+    hint?: string;
+    /** Errors prevent the bot from starting, warnings are only logged */
+    severity: 'error' | 'warning';
+}
+
+/** Describes the expected type of a config value */
+type ValueSchema = {
+    /**
+     * If the value can be missing (default: false). A function makes the value required only when it returns false,
+     * otherwise the value is not used by the bot and is not validated
+     */
+    optional?: boolean | ((cfg: Config) => boolean);
+    /** Suggestion shown when the value is not valid */
+    hint?: string;
+} & (
+    { type: 'string' | 'number' | 'boolean' | 'stringList' } |
+    /** Discord snowflake, it must be quoted in the file as numbers that big lose precision */
+    { type: 'id' | 'idList' } |
+    { type: 'enum', values: string[] } |
+    { type: 'string', pattern: RegExp } |
+    { type: 'section', fields: SectionSchema } |
+    /** Section whose keys are chosen by the user, like 'categories', all its entries have the same fields */
+    { type: 'sectionMap', entry: SectionSchema } |
+    /** List of sections with the same fields, like the fields of the embed */
+    { type: 'sectionList', entry: SectionSchema }
+);
+
+type SectionSchema = Record<string, ValueSchema>;
+
+/** Values that are left in the default config and must be replaced by the user */
+const PLACEHOLDER_REGEX = /^(ID|[A-Z_]+_HERE)$/;
+const ID_REGEX = /^\d{17,20}$/;
+const ID_HINT = 'it must be a Discord ID between quotes, enable Developer Mode in Discord and use "Copy ID"';
+
+const isWebSocket = (cfg: Config) => cfg.has('transport') && cfg.getString('transport') === 'websocket';
+
+/**
+ * Creates the schema of an embed section.
+ * @param optional if all the values are optional, as for overrides
+ */
+const embedSchema = (optional: boolean): SectionSchema => ({
+    color: { type: 'string', pattern: /^#[0-9a-fA-F]{6}$/, optional: optional, hint: 'use a hex color like "#FF5733"' },
+    title: { type: 'string', optional: optional },
+    description: { type: 'string', optional: true },
+    author: { type: 'section', optional: true, fields: {
+        name: { type: 'string' },
+        icon: { type: 'string', optional: true },
+        url: { type: 'string', optional: true },
+    } },
+    footer: { type: 'section', optional: true, fields: {
+        text: { type: 'string' },
+        icon: { type: 'string', optional: true },
+    } },
+    thumbnail: { type: 'string', optional: true },
+    fields: { type: 'sectionList', optional: true, entry: {
+        name: { type: 'string' },
+        value: { type: 'string' },
+        inline: { type: 'boolean', optional: true },
+    } },
+    image_size: { type: 'string', pattern: /^(\d+x\d+|none)$/, optional: true, hint: 'use a size like 440x248 or none' },
+});
+
+/** Schema of the whole config file */
+export const CONFIG_SCHEMA: SectionSchema = {
+    token: { type: 'string', hint: 'copy the token from the Bot page of the Discord Developer Portal' },
+    client_id: { type: 'id', hint: 'copy the Application ID from the Discord Developer Portal' },
+    guild_id: { type: 'id', hint: ID_HINT },
+    global_commands: { type: 'boolean', optional: true },
+    twitch_id_client: { type: 'string', hint: 'copy the Client ID from the Twitch Developer Console' },
+    twitch_secret: { type: 'string', hint: 'copy the Client Secret from the Twitch Developer Console' },
+    transport: { type: 'enum', values: ['webhook', 'websocket'], optional: true },
+    websocket: { type: 'section', optional: cfg => !isWebSocket(cfg), fields: {
+        user_token: { type: 'string' },
+        refresh_token: { type: 'string', optional: true },
+        url: { type: 'string', optional: true },
+        subscriptions_url: { type: 'string', optional: true },
+    } },
+    webhooks_host: { type: 'string', optional: isWebSocket },
+    webhooks_port: { type: 'number', optional: isWebSocket },
+    webhooks_secret: { type: 'string', optional: isWebSocket, hint: 'use a random string between 10 and 100 characters' },
+    webhooks_persist_message_ids: { type: 'boolean', optional: true },
+    permissions: { type: 'section', optional: true, fields: {
+        admin_roles: { type: 'idList', optional: true },
+        admin_users: { type: 'idList', optional: true },
+        default_member_permissions: { type: 'string', optional: true },
+    } },
+    moderation_channel: { type: 'id', hint: ID_HINT },
+    admin_log_channel: { type: 'id', optional: true, hint: ID_HINT },
+    streamer_role: { type: 'id', hint: ID_HINT },
+    streamer_online_role: { type: 'id', hint: ID_HINT },
+    categories: { type: 'sectionMap', entry: {
+        name: { type: 'string', optional: true },
+        game_id: { type: 'string', optional: true },
+        notification_channel: { type: 'id', hint: ID_HINT },
+        online_role: { type: 'id', optional: true, hint: ID_HINT },
+        alert_content: { type: 'string', optional: true },
+        ping_role: { type: 'id', optional: true, hint: ID_HINT },
+        embed: { type: 'section', optional: true, fields: embedSchema(true) },
+    } },
+    subscription_sync_interval: { type: 'number', optional: true },
+    offline_grace_period: { type: 'number', optional: true },
+    alert_cooldown: { type: 'number', optional: true },
+    alert_refresh_interval: { type: 'number', optional: true },
+    database_file: { type: 'string' },
+    alert_content: { type: 'string', optional: true },
+    ping_role: { type: 'id', optional: true, hint: ID_HINT },
+    ping_roles: { type: 'idList', optional: true },
+    embed: { type: 'section', fields: embedSchema(false) },
+    on_offline: { type: 'enum', values: ['delete', 'edit', 'edit_and_archive'], optional: true },
+    archive_channel: {
+        type: 'id',
+        optional: cfg => !cfg.has('on_offline') || cfg.getString('on_offline') !== 'edit_and_archive',
+        hint: ID_HINT,
+    },
+    summary_embed: { type: 'section', fields: {
+        color: { type: 'string', pattern: /^#[0-9a-fA-F]{6}$/, hint: 'use a hex color like "#FF5733"' },
+        title: { type: 'string' },
+    } },
+    raid_announcement: { type: 'section', optional: true, fields: {
+        channel: { type: 'id', hint: ID_HINT },
+        message: { type: 'string' },
+    } },
+    recaps: { type: 'sectionMap', optional: true, entry: {
+        channel: { type: 'id', hint: ID_HINT },
+        schedule: { type: 'string' },
+        period: { type: 'enum', values: PERIOD_CHOICES.map(([, value]) => value), optional: true },
+        title: { type: 'string', optional: true },
+    } },
+    // Used by older versions, migrated to the database at startup
+    streams: { type: 'sectionMap', optional: true, entry: {
+        discord_user_id: { type: 'id', hint: ID_HINT },
+        role_id: { type: 'id', optional: true, hint: ID_HINT },
+    } },
+};
+
+/** Keys of the values that can be set for each guild, the other ones are shared by all guilds */
+export const GUILD_KEYS = ['moderation_channel', 'admin_log_channel', 'streamer_role', 'streamer_online_role',
+    'categories', 'alert_content', 'ping_role', 'ping_roles', 'embed', 'on_offline', 'archive_channel', 'summary_embed',
+    'raid_announcement', 'permissions', 'recaps'];
+/** Keys of the guild values that refer to channels and roles, only the main guild takes them from the config file */
+export const GUILD_ID_KEYS = ['moderation_channel', 'admin_log_channel', 'streamer_role', 'streamer_online_role',
+    'categories', 'ping_role', 'ping_roles', 'archive_channel', 'raid_announcement', 'permissions', 'recaps'];
+
+/**
+ * Gets the type of the value at the given path, as expected by the schema.
+ * @param path the path of the value
+ * @return the type, like 'id' or 'number', or undefined if the path is not known or is inside a list
+ */
+export function getValueType(path: string[]): string | undefined {
+    let schema: ValueSchema | undefined = { type: 'section', fields: CONFIG_SCHEMA };
+    for (const key of path) {
+        if (schema.type === 'section') schema = schema.fields[key];
+        else if (schema.type === 'sectionMap') schema = { type: 'section', fields: schema.entry };
+        else return undefined;
+        if (schema === undefined) return undefined;
+    }
+    return schema.type;
+}
+
+/**
+ * Validates a value against its schema, adding the problems found to the issues.
+ * @param cfg the root of the config
+ * @param section the section that contains the value
+ * @param path the path of the section, used in the issues
+ * @param key the key of the value in the section
+ * @param schema the schema of the value
+ * @param issues the list where problems are added
+ */
+function validateValue(cfg: Config, section: Config, path: string[], key: string, schema: ValueSchema, issues: ConfigIssue[]): void {
+    const location = [...path, key];
+    const error = (message: string, hint = schema.hint) => issues.push({ path: location.join('/'), message: message, hint: hint, severity: 'error' });
+    const type = section.getType([key]);
+
+    // Values required only in some configurations are ignored by the bot in the other ones, like the websocket section
+    const optional = typeof schema.optional === 'function' ? schema.optional(cfg) : schema.optional;
+    if (typeof schema.optional === 'function' && optional) return;
+    if (type === 'missing' || type === 'null') {
+        if (!optional) error('missing value');
+        return;
+    }
+
+    switch (schema.type) {
+    case 'string':
+    case 'enum': {
+        if (type !== 'string') {
+            error(`expected text but found ${type}`);
+            break;
+        }
+        const value = section.getString(key);
+        if (PLACEHOLDER_REGEX.test(value)) error('still set to the value of the default config');
+        else if (schema.type === 'enum' && !schema.values.includes(value)) error(`'${value}' is not valid`, `use one of: ${schema.values.join(', ')}`);
+        else if ('pattern' in schema && !schema.pattern.test(value)) error(`'${value}' is not valid`);
+        break;
+    }
+    case 'id':
+        if (type === 'number') error('IDs must be between quotes, otherwise they are read as rounded numbers');
+        else if (type !== 'string') error(`expected a Discord ID but found ${type}`);
+        else if (PLACEHOLDER_REGEX.test(section.getString(key))) error('still set to the value of the default config');
+        else if (!ID_REGEX.test(section.getString(key))) error(`'${section.getString(key)}' is not a Discord ID`);
+        break;
+    case 'number':
+    case 'boolean':
+        if (type !== schema.type) error(`expected ${schema.type} but found ${type}`);
+        break;
+    case 'stringList':
+    case 'idList': {
+        if (type !== 'list') {
+            error(`expected a list but found ${type}`, 'use a list like ["value1", "value2"], or [] if empty');
+            break;
+        }
+        let items: string[];
+        try {
+            items = section.getStringArray(key);
+        } catch (e) {
+            error('all the items must be text', 'put the items between quotes');
+            break;
+        }
+        const invalid = schema.type === 'idList' ? items.filter(item => !ID_REGEX.test(item)) : [];
+        if (invalid.length > 0) {
+            error(`${invalid.map(item => `'${item}'`).join(', ')} ${invalid.length === 1 ? 'is not a Discord ID' : 'are not Discord IDs'}`, ID_HINT);
+        }
+        break;
+    }
+    case 'section':
+        if (type !== 'section') error(`expected a section but found ${type}`);
+        else validateSection(cfg, new Config(section, key), location, schema.fields, issues);
+        break;
+    case 'sectionMap': {
+        if (type !== 'section') {
+            error(`expected a section but found ${type}`);
+            break;
+        }
+        const entries = new Config(section, key);
+        for (const entry of entries) {
+            if (entries.getType([entry]) !== 'section') error(`expected a section for '${entry}'`);
+            else validateSection(cfg, new Config(entries, entry), [...location, entry], schema.entry, issues);
+        }
+        break;
+    }
+    case 'sectionList':
+        if (type !== 'list') {
+            error(`expected a list but found ${type}`);
+            break;
+        }
+        for (let i = 0; section.getType([key, `${i}`]) !== 'missing'; i++) {
+            if (section.getType([key, `${i}`]) !== 'section') error(`expected a section for item ${i}`);
+            else validateSection(cfg, new Config(section, [key, `${i}`]), [...location, `${i}`], schema.entry, issues);
+        }
+        break;
+    }
+}
+
+/**
+ * Validates the values of a section against its schema, adding the problems found to the issues.
+ * @param cfg the root of the config
+ * @param section the section to validate
+ * @param path the path of the section, used in the issues
+ * @param schema the schema of the section
+ * @param issues the list where problems are added
+ */
+function validateSection(cfg: Config, section: Config, path: string[], schema: SectionSchema, issues: ConfigIssue[]): void {
+    for (const key in schema) validateValue(cfg, section, path, key, schema[key], issues);
+
+    const normalize = (key: string) => key.toLowerCase().replace(/[_-]/g, '');
+    for (const key of section) {
+        if (schema[key] !== undefined) continue;
+        const similar = Object.keys(schema).find(known => normalize(known) === normalize(key));
+        issues.push({
+            path: [...path, key].join('/'),
+            message: 'unknown key, it will be ignored',
+            hint: similar ? `did you mean '${similar}'?` : undefined,
+            severity: 'warning',
+        });
+    }
+}
+
+/**
+ * Validates the whole config against the schema.
+ * @param cfg the config to validate
+ * @return all the problems found, empty if the config is valid
+ */
+export function validateConfig(cfg: Config): ConfigIssue[] {
+    const issues: ConfigIssue[] = [];
+    // Values after a syntax error may be missing, so the other problems would be misleading
+    const errors = cfg.getErrors();
+    if (errors.length > 0) {
+        return errors.map(error => ({ path: 'config.yml', message: error, hint: 'check the indentation and the quotes', severity: 'error' }));
+    }
+    validateSection(cfg, cfg, [], CONFIG_SCHEMA, issues);
+
+    if (cfg.getType(['categories']) === 'section') {
+        const categories = cfg.getSection('categories');
+        for (const key of categories) {
+            if (categories.getType([key]) === 'section' && !categories.has([key, 'name']) && !categories.has([key, 'game_id'])) {
+                issues.push({ path: `categories/${key}`, message: 'missing name and game_id', hint: 'set at least one of them', severity: 'error' });
+            }
+        }
+    }
+    if (cfg.getType(['recaps']) === 'section') {
+        const recaps = cfg.getSection('recaps');
+        for (const key of recaps) {
+            if (recaps.getType([key, 'schedule']) !== 'string') continue;
+            try {
+                new CronExpression(recaps.getSection(key).getString('schedule')).next(new Date());
+            } catch (e) {
+                if (!(e instanceof CronError)) throw e;
+                issues.push({ path: `recaps/${key}/schedule`, message: `invalid schedule, ${e.message}`, hint: 'use a cron expression like "0 18 * * 0" for every Sunday at 18:00', severity: 'error' });
+            }
+        }
+    }
+    return issues;
+}
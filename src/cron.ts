@@ -0,0 +1,119 @@
+/** Error thrown when a cron expression is not valid */
+export class CronError extends Error {}
+
+/** Name, min and max value of each field of a cron expression, in order */
+const FIELDS: [string, number, number][] = [
+    ['minute', 0, 59],
+    ['hour', 0, 23],
+    ['day of month', 1, 31],
+    ['month', 1, 12],
+    ['day of week', 0, 7],
+];
+
+/**
+ * Schedule parsed from a cron expression with five fields: minute, hour, day of month, month and day of week. Each
+ * field is '*', a number, a range like '1-5', a step like '*\/15' or '1-31/2', or a list of them like '1,15'. Both 0
+ * and 7 are Sunday and, as in cron, when both the day of month and the day of week are restricted a day matches if
+ * either of them does. Times are in the time zone of the bot.
+ */
+export class CronExpression {
+    /** Max number of years searched for the next time, so that expressions like '0 0 30 2 *' do not loop forever */
+    private static readonly MAX_YEARS = 5;
+
+    private readonly _minutes: Set<number>;
+    private readonly _hours: Set<number>;
+    private readonly _daysOfMonth: Set<number>;
+    private readonly _months: Set<number>;
+    private readonly _daysOfWeek: Set<number>;
+    private readonly _anyDayOfMonth: boolean;
+    private readonly _anyDayOfWeek: boolean;
+
+    /**
+     * Parses a cron expression.
+     * @param expression the expression, like '0 18 * * 0' for every Sunday at 18:00
+     * @throws CronError if the expression is not valid
+     */
+    constructor(expression: string) {
+        const fields = expression.trim().split(/\s+/);
+        if (fields.length !== FIELDS.length) throw new CronError(`expected ${FIELDS.length} fields but found ${fields.length}`);
+        [this._minutes, this._hours, this._daysOfMonth, this._months, this._daysOfWeek] =
+            fields.map((field, i) => CronExpression.parseField(field, ...FIELDS[i]));
+        if (this._daysOfWeek.has(7)) this._daysOfWeek.add(0);
+        this._anyDayOfMonth = fields[2] === '*';
+        this._anyDayOfWeek = fields[4] === '*';
+    }
+
+    /**
+     * Parses a field of the expression.
+     * @param field the text of the field
+     * @param name the name of the field, used in errors
+     * @param min the min value of the field
+     * @param max the max value of the field
+     * @return the values matched by the field
+     * @throws CronError if the field is not valid
+     * @private
+     */
+    private static parseField(field: string, name: string, min: number, max: number): Set<number> {
+        const values = new Set<number>();
+        for (const part of field.split(',')) {
+            const match = /^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+            if (!match) throw new CronError(`invalid ${name} '${part}'`);
+            const [, from, to, step] = match;
+            let start = min;
+            let end = max;
+            if (from !== undefined) {
+                start = Number(from);
+                // A single value with a step, like '5/10', runs until the end of the range as in cron
+                end = to !== undefined ? Number(to) : step !== undefined ? max : start;
+            }
+            if (start < min || end > max || start > end) throw new CronError(`${name} '${part}' is not between ${min} and ${max}`);
+            if (step !== undefined && Number(step) === 0) throw new CronError(`invalid step in ${name} '${part}'`);
+            for (let value = start; value <= end; value += Number(step ?? 1)) values.add(value);
+        }
+        return values;
+    }
+
+    /**
+     * Checks if the day of a date matches the expression.
+     * @param date the date to check
+     * @private
+     */
+    private matchesDay(date: Date): boolean {
+        const dayOfMonth = this._daysOfMonth.has(date.getDate());
+        const dayOfWeek = this._daysOfWeek.has(date.getDay());
+        if (this._anyDayOfMonth) return dayOfWeek;
+        if (this._anyDayOfWeek) return dayOfMonth;
+        return dayOfMonth || dayOfWeek;
+    }
+
+    /**
+     * Gets the first time matched by the expression after the given one.
+     * @param after the time to start from, it is excluded
+     * @return the next time, at the start of its minute
+     * @throws CronError if the expression never matches, like on February 30
+     */
+    next(after: Date): Date {
+        const date = new Date(after.getTime());
+        date.setSeconds(0, 0);
+        date.setMinutes(date.getMinutes() + 1);
+        const limit = new Date(after.getTime());
+        limit.setFullYear(limit.getFullYear() + CronExpression.MAX_YEARS);
+
+        while (date <= limit) {
+            if (!this._months.has(date.getMonth() + 1)) {
+                date.setMonth(date.getMonth() + 1, 1);
+                date.setHours(0, 0, 0, 0);
+            } else if (!this.matchesDay(date)) {
+                date.setDate(date.getDate() + 1);
+                date.setHours(0, 0, 0, 0);
+            } else if (!this._hours.has(date.getHours())) {
+                date.setHours(date.getHours() + 1, 0, 0, 0);
+            } else if (!this._minutes.has(date.getMinutes())) {
+                date.setMinutes(date.getMinutes() + 1, 0, 0);
+            } else {
+                return date;
+            }
+        }
+        throw new CronError('the expression never matches');
+    }
+}
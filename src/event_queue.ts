@@ -0,0 +1,56 @@
+import log from './log.js';
+
+const logger = log('EventQueue');
+
+/**
+ * Runs asynchronous tasks one at a time for each key, in the order they have been queued. Tasks with different keys
+ * run concurrently. A task that fails is logged and doesn't stop the following ones, while a task that takes too long
+ * is logged but still awaited, so that two tasks for the same key never overlap.
+ */
+export class EventQueue {
+    /** Time after which a task that is still running is logged as slow, in milliseconds */
+    private readonly _timeout: number;
+    /** Maps each key to the promise of the last task queued for it, removed once the queue is empty */
+    private readonly _tails = new Map<string, Promise<void>>();
+
+    constructor(timeout: number) {
+        this._timeout = timeout;
+    }
+
+    /**
+     * Queues a task, it will start once all the tasks previously queued for the same key have completed.
+     * @param key the key whose tasks must not overlap, like the id of a broadcaster
+     * @param name the name of the task, used in logs
+     * @param task the function that runs the task
+     * @return a promise that resolves when the task has completed or failed
+     */
+    enqueue(key: string, name: string, task: () => Promise<void>): Promise<void> {
+        const previous = this._tails.get(key) ?? Promise.resolve();
+        const current = previous.then(() => this.run(key, name, task));
+        this._tails.set(key, current);
+        current.then(() => {
+            if (this._tails.get(key) === current) this._tails.delete(key);
+        });
+        return current;
+    }
+
+    /**
+     * Runs a task, catching its errors and logging it if it is still running after the timeout.
+     * @param key the key of the task
+     * @param name the name of the task
+     * @param task the function that runs the task
+     * @private
+     */
+    private async run(key: string, name: string, task: () => Promise<void>): Promise<void> {
+        const timer = setTimeout(() => {
+            logger.warn(`Processing ${name} for ${key} is taking more than ${this._timeout / 1000}s, the next events for ${key} are waiting`);
+        }, this._timeout);
+        try {
+            await task();
+        } catch (e) {
+            logger.error(`Error while processing ${name} for ${key}: ${e}`);
+        } finally {
+            clearTimeout(timer);
+        }
+    }
+}
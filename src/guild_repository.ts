@@ -0,0 +1,67 @@
+import Database from 'better-sqlite3';
+
+/** Values of the config set for a guild, mapped by their path joined with '/', like 'categories/games/name' */
+export type GuildSettings = Record<string, string | number | boolean | string[]>;
+
+/** Row of the guilds table */
+interface GuildRow {
+    guild_id: string;
+    /** Settings of the guild, as JSON */
+    settings: string;
+    added_at: number;
+}
+
+/** Stores the guilds where the bot has been added and their settings in the SQLite database */
+export class GuildRepository {
+    private readonly _db: Database.Database;
+
+    constructor(dataFilePath: string) {
+        this._db = new Database(dataFilePath);
+        this._db.prepare(`CREATE TABLE IF NOT EXISTS guilds (
+            guild_id TEXT PRIMARY KEY,
+            settings TEXT NOT NULL DEFAULT '{}',
+            added_at INTEGER NOT NULL
+        )`).run();
+    }
+
+    /** Gets the ids of all guilds, ordered by the time they have been added */
+    getIds(): string[] {
+        const rows = this._db.prepare('SELECT guild_id FROM guilds ORDER BY added_at').all() as GuildRow[];
+        return rows.map(row => row.guild_id);
+    }
+
+    /**
+     * Gets the settings of the guild with the given id, empty if the guild has no settings or is not found.
+     * @param guildId the id of the guild
+     */
+    getSettings(guildId: string): GuildSettings {
+        const row = this._db.prepare('SELECT settings FROM guilds WHERE guild_id = ?').get(guildId) as GuildRow | undefined;
+        return row ? JSON.parse(row.settings) : {};
+    }
+
+    /**
+     * Adds a guild without settings, does nothing if it is already present.
+     * @param guildId the id of the guild
+     */
+    add(guildId: string): void {
+        this._db.prepare('INSERT OR IGNORE INTO guilds (guild_id, added_at) VALUES (?, ?)').run(guildId, Date.now());
+    }
+
+    /**
+     * Replaces the settings of the guild with the given id, adding the guild if it is not present.
+     * @param guildId the id of the guild
+     * @param settings the new settings
+     */
+    setSettings(guildId: string, settings: GuildSettings): void {
+        this.add(guildId);
+        this._db.prepare('UPDATE guilds SET settings = ? WHERE guild_id = ?').run(JSON.stringify(settings), guildId);
+    }
+
+    /**
+     * Removes the guild with the given id and its settings.
+     * @param guildId the id of the guild
+     */
+    remove(guildId: string): void {
+        this._db.prepare('DELETE FROM guilds WHERE guild_id = ?').run(guildId);
+    }
+}
@@ -1,5 +1,6 @@
 import { fileURLToPath } from 'url';
 import { join, dirname } from 'path';
+import { Template } from './template.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
@@ -12,11 +13,37 @@ export function getPathRelativeToProjectRoot(relativePath?: string): string {
     return join(__dirname, '..', relativePath);
 }
 
+/** Max number of parsed templates kept by {@link format} */
+const MAX_CACHED_TEMPLATES = 200;
+/** Templates already parsed by {@link format}, by source, in the order they have been used */
+const templates = new Map<string, Template>();
+
 /**
- * Formats a message replacing all patterns like '{name}' with params[name].
+ * Formats a message replacing all patterns like '${name}' with params[name], see {@link Template} for the syntax.
+ * The parsed templates are cached, as the same ones are used for every alert.
  * @param message the message to format
  * @param params the object mapping parameter names with the value to put in the message
  */
-export function format(message: string, params: Record<string, string>): string {
-    return message.replace(/\${([^}]*)}/g, (r, k) => params[k]);
+export function format(message: string, params: Record<string, string | undefined>): string {
+    let template = templates.get(message);
+    if (template) {
+        templates.delete(message);
+    } else {
+        template = new Template(message);
+        if (templates.size >= MAX_CACHED_TEMPLATES) templates.delete(templates.keys().next().value as string);
+    }
+    templates.set(message, template);
+    return template.render(params);
+}
+
+/**
+ * Formats a duration in a human readable way, like '2h 5m'.
+ * @param milliseconds the duration in milliseconds
+ */
+export function formatDuration(milliseconds: number): string {
+    const totalMinutes = Math.max(0, Math.floor(milliseconds / 60000));
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    if (hours === 0) return `${minutes}m`;
+    return `${hours}h ${minutes}m`;
 }
\ No newline at end of file
@@ -1,9 +1,20 @@
 import log from './log.js';
 import { Config } from './config.js';
 import { StreamManager } from './stream_manager.js';
-import { TwitchApi } from './twitch/twitch_api.js';
+import { AlertDispatcher } from './alert_dispatcher.js';
+import { Streamer, StreamerRepository } from './streamer_repository.js';
+import { GuildRepository } from './guild_repository.js';
+import { SessionRepository } from './session_repository.js';
+import { RecapScheduler } from './recap_scheduler.js';
+import { TransportOptions, TwitchApi } from './twitch/twitch_api.js';
 import { Webhooks } from './twitch/webhooks.js';
-import { Client, CommandInteraction, Intents } from 'discord.js';
+import { EventSubWebSocket } from './twitch/websocket.js';
+import { SubscriptionReconciler } from './twitch/reconciler.js';
+import { MessageIdStore } from './twitch/message_id_store.js';
+import { ConfigIssue, GUILD_ID_KEYS, validateConfig } from './config_schema.js';
+import { checkDiscordSetup } from './setup_check.js';
+import { TemplateError } from './template.js';
+import { ButtonInteraction, Client, CommandInteraction, Intents, SelectMenuInteraction } from 'discord.js';
 import { getPathRelativeToProjectRoot } from './helper.js';
 import { existsSync } from 'fs';
 import { CommandManager } from './commands/command_manager.js';
@@ -13,69 +24,444 @@ const logger = log();
 
 let bot: Bot | undefined = undefined;
 
+/** Outcome of a reload of the config */
+export interface ReloadResult {
+    /** If the new config has been applied, it is not when it has errors */
+    applied: boolean;
+    /** Problems found in the new config */
+    issues: ConfigIssue[];
+    /** Problems found in the config of each guild with its settings applied on top of the new config, mapped by guild id */
+    guildIssues: Record<string, ConfigIssue[]>;
+    /** Keys that have changed but that are applied only after a restart */
+    restartKeys: string[];
+}
+
 export class Bot {
-    readonly cfg;
-    private readonly _dataFilePath;
+    /** Keys of the config used only when the bot starts, changing them requires a restart */
+    private static readonly RESTART_KEYS = ['token', 'client_id', 'guild_id', 'twitch_id_client', 'twitch_secret',
+        'transport', 'websocket', 'webhooks_host', 'webhooks_port', 'webhooks_secret', 'webhooks_persist_message_ids',
+        'database_file'];
+
+    readonly dataFilePath;
+    readonly streamers;
+    readonly guilds;
+    readonly sessions;
+    /** Id of the guild set in the config, its settings are the ones of config.yml */
+    readonly mainGuildId;
 
     private readonly _client;
     private readonly _cmdManager;
+    /** Current config, replaced when it is reloaded */
+    private _cfg: Config;
 
     twitchApi?: TwitchApi;
-    streamManager?: StreamManager;
+    dispatcher?: AlertDispatcher;
+    reconciler?: SubscriptionReconciler;
+    /** Webserver receiving the notifications, undefined when the WebSocket transport is used */
+    webhooks?: Webhooks;
+    recapScheduler?: RecapScheduler;
 
     constructor() {
-        this.cfg = new Config();
-        if (this.cfg === undefined) process.exit(1);
+        this._cfg = new Config();
+        Bot.migrateCategoryFromConfig(this._cfg);
+        const issues = Bot.validateConfig(this._cfg);
+        Bot.logConfigIssues(issues);
+        if (issues.some(issue => issue.severity === 'error')) {
+            logger.error('Invalid config.yml, fix the errors above and restart the bot');
+            process.exit(1);
+        }
 
-        this._dataFilePath = getPathRelativeToProjectRoot(this.cfg.getString('database_file'));
-        if (!existsSync(this._dataFilePath)) {
+        this.dataFilePath = getPathRelativeToProjectRoot(this.cfg.getString('database_file'));
+        if (!existsSync(this.dataFilePath)) {
             logger.error('Database file not found, check your configuration');
             process.exit(1);
         }
+        this.mainGuildId = this.cfg.getString('guild_id');
+        this.streamers = new StreamerRepository(this.dataFilePath, this.mainGuildId);
+        this.guilds = new GuildRepository(this.dataFilePath);
+        this.sessions = new SessionRepository(this.dataFilePath);
 
         this._client = new Client({ intents: [Intents.FLAGS.GUILDS, Intents.FLAGS.GUILD_MEMBERS, Intents.FLAGS.GUILD_MESSAGES] });
         this._cmdManager = new CommandManager();
 
         this.twitchApi = new TwitchApi(
             this.cfg.getString('twitch_id_client'), this.cfg.getString('twitch_secret'),
-            this.cfg.getString('webhooks_host'), this.cfg.getString('webhooks_secret'),
-            this._dataFilePath);
+            this.getTransportOptions(), this.dataFilePath);
 
         this.registerEventListeners();
     }
 
+    get cfg(): Config {
+        return this._cfg;
+    }
+
+    /**
+     * Gets the config of a guild, made of config.yml with the settings of the guild applied on top. The channels and
+     * roles of config.yml belong to the main guild, so they are not inherited by the other guilds.
+     * @param guildId the id of the guild
+     * @param settings the settings of the guild, the saved ones if not given
+     * @param cfg the config.yml to apply the settings to, the current one if not given
+     */
+    getGuildConfig(guildId: string, settings = this.guilds.getSettings(guildId), cfg = this.cfg): Config {
+        return cfg.withValues(settings, guildId === this.mainGuildId ? [] : GUILD_ID_KEYS);
+    }
+
+    /**
+     * Validates the values and the templates of a config.
+     * @param cfg the config to validate
+     * @return all the problems found, empty if the config is valid
+     */
+    static validateConfig(cfg: Config): ConfigIssue[] {
+        const issues = validateConfig(cfg);
+        // Templates can be checked only once their sections are known to be valid
+        if (issues.some(issue => issue.severity === 'error')) return issues;
+        try {
+            StreamManager.validateTemplates(cfg);
+        } catch (e) {
+            if (!(e instanceof TemplateError)) throw e;
+            issues.push({ path: 'config.yml', message: e.message, severity: 'error' });
+        }
+        return issues;
+    }
+
+    /**
+     * Logs the problems found in the config, each one with its path.
+     * @param issues the problems to log
+     * @private
+     */
+    private static logConfigIssues(issues: ConfigIssue[]) {
+        for (const issue of issues) {
+            const message = `- ${issue.path}: ${issue.message}${issue.hint ? ` (${issue.hint})` : ''}`;
+            if (issue.severity === 'error') logger.error(message);
+            else logger.warn(message);
+        }
+    }
+
+    /** Checks if the bot is configured to receive notifications through the EventSub WebSocket */
+    private useWebSocket(): boolean {
+        return this.cfg.has('transport') && this.cfg.getString('transport') === 'websocket';
+    }
+
+    /** Gets the options for the transport that Twitch will use to send notifications, as specified in the config */
+    private getTransportOptions(): TransportOptions {
+        if (this.useWebSocket()) {
+            const sect = this.cfg.getSection('websocket');
+            return {
+                method: 'websocket',
+                userToken: sect.getString('user_token'),
+                refreshToken: sect.has('refresh_token') ? sect.getString('refresh_token') : undefined,
+                subscriptionsUrl: sect.has('subscriptions_url') ? sect.getString('subscriptions_url') : undefined,
+            };
+        }
+        return {
+            method: 'webhook',
+            callbackBaseUrl: this.cfg.getString('webhooks_host'),
+            callbackSecret: this.cfg.getString('webhooks_secret'),
+        };
+    }
+
+    /**
+     * Registers a new streamer in a guild, subscribing to his stream updates and saving him to the database.
+     * @param guildId the id of the guild
+     * @param login the login of the streamer on Twitch
+     * @param discordUserId the id of the Discord user of the streamer, undefined for an external streamer
+     * @return the registered streamer, or undefined if there is no Twitch user with the given login
+     */
+    async registerStreamer(guildId: string, login: string, discordUserId?: string): Promise<Streamer | undefined> {
+        const users = await this.twitchApi?.getUsers([], [login]);
+        if (!users || !users[0]) return undefined;
+
+        const streamer: Streamer = {
+            guildId: guildId,
+            twitchId: users[0]['id'] as string,
+            login: users[0]['login'] as string,
+            displayName: users[0]['display_name'] as string,
+            discordUserId: discordUserId,
+            addedAt: Date.now(),
+            enabled: true,
+            broken: false,
+        };
+        const existing = this.streamers.getById(guildId, streamer.twitchId);
+        if (existing) throw Error(`Twitch user ${streamer.login} is already registered as ${existing.login}`);
+        await this.twitchApi?.subscribeToStreamUpdates(streamer.twitchId);
+        this.streamers.add(streamer);
+        return streamer;
+    }
+
+    /**
+     * Enables or disables the alerts of a streamer in his guild. His subscriptions are created when he is enabled,
+     * unless he is broken, and deleted when he is disabled if no other guild tracks him.
+     * @param streamer the streamer to enable or disable
+     * @param enabled if the alerts of the streamer should be sent
+     */
+    async setStreamerEnabled(streamer: Streamer, enabled: boolean): Promise<void> {
+        this.streamers.setEnabled(streamer.guildId, streamer.twitchId, enabled);
+        if (enabled && !streamer.broken) {
+            await this.twitchApi?.subscribeToStreamUpdates(streamer.twitchId);
+        } else if (!enabled && !this.streamers.getTrackedIds().includes(streamer.twitchId)) {
+            await this.twitchApi?.deleteSubscriptions(streamer.twitchId);
+        }
+    }
+
+    /**
+     * Unregisters a streamer from his guild, deleting his follower role and removing him from the database. His
+     * subscriptions are deleted only if no other guild tracks him.
+     * @param streamer the streamer to unregister
+     */
+    async unregisterStreamer(streamer: Streamer): Promise<void> {
+        this.streamers.remove(streamer.guildId, streamer.twitchId);
+        if (!this.streamers.getTrackedIds().includes(streamer.twitchId)) {
+            await this.twitchApi?.deleteSubscriptions(streamer.twitchId);
+        }
+        if (streamer.followerRoleId) {
+            await this._client.guilds.cache.get(streamer.guildId)?.roles.delete(streamer.followerRoleId)
+                .catch(e => logger.warn(`Could not delete follower role of ${streamer.login}: ${e}`));
+        }
+    }
+
+    /** Subscribes to stream updates for all the streamers tracked by at least one guild */
+    private subscribeAllStreamers() {
+        for (const twitchId of this.streamers.getTrackedIds()) {
+            this.twitchApi?.subscribeToStreamUpdates(twitchId)
+                .then(() => logger.debug(`Finished subscribing process for ${twitchId}`));
+        }
+    }
+
+    /**
+     * Validates the config of a guild and applies it to the alerts and recaps of the guild, a config with errors is not applied
+     * and the guild keeps the last valid one.
+     * @param guildId the id of the guild
+     * @return all the problems found in the config of the guild
+     */
+    async applyGuildConfig(guildId: string): Promise<ConfigIssue[]> {
+        const cfg = this.getGuildConfig(guildId);
+        const issues = Bot.validateConfig(cfg);
+        if (issues.some(issue => issue.severity === 'error')) return issues;
+        await this.dispatcher?.setGuildConfig(guildId, cfg);
+        this.recapScheduler?.setGuildConfig(guildId, cfg);
+        return issues;
+    }
+
+    /**
+     * Adds a guild where the bot is a member and starts sending its alerts, if it has been configured. Problems in
+     * the Discord setup affect only some features, so they are only logged.
+     * @param guildId the id of the guild
+     * @private
+     */
+    private async setupGuild(guildId: string): Promise<void> {
+        this.guilds.add(guildId);
+        const issues = await this.applyGuildConfig(guildId);
+        if (issues.some(issue => issue.severity === 'error')) {
+            logger.warn(`Guild ${guildId} is not configured, use /settings in the guild to configure it:`);
+            Bot.logConfigIssues(issues);
+            return;
+        }
+
+        const setupIssues = await checkDiscordSetup(this._client, guildId, this.getGuildConfig(guildId));
+        if (setupIssues.length > 0) {
+            logger.warn(`Found problems in the Discord setup of guild ${guildId}, some features may not work:`);
+            Bot.logConfigIssues(setupIssues);
+        }
+    }
+
+    /**
+     * Reads config.yml again and applies it without restarting the bot. The new config is rejected if it has errors,
+     * or if it makes the config of a guild whose alerts are running invalid once the settings of the guild are
+     * applied. Otherwise it replaces the current one for the alerts and the commands of all guilds, streamers added
+     * to the legacy 'streams' section are migrated and the subscriptions are reconciled with the tracked streamers.
+     */
+    async reloadConfig(): Promise<ReloadResult> {
+        let cfg: Config;
+        try {
+            cfg = new Config();
+        } catch (e) {
+            return { applied: false, issues: [{ path: 'config.yml', message: 'file not found', severity: 'error' }], guildIssues: {}, restartKeys: [] };
+        }
+        Bot.migrateCategoryFromConfig(cfg);
+        const issues = Bot.validateConfig(cfg);
+        const guildIds = this.guilds.getIds().filter(guildId => this._client.guilds.cache.has(guildId));
+        const guildIssues: Record<string, ConfigIssue[]> = {};
+        if (!issues.some(issue => issue.severity === 'error')) {
+            // Guilds that are not configured yet have no alerts to break, their config is checked when they save settings
+            for (const guildId of guildIds.filter(id => this.dispatcher?.getManager(id) !== undefined)) {
+                const errors = Bot.validateConfig(this.getGuildConfig(guildId, undefined, cfg)).filter(issue => issue.severity === 'error');
+                if (errors.length > 0) guildIssues[guildId] = errors;
+            }
+        }
+        if (issues.some(issue => issue.severity === 'error') || Object.keys(guildIssues).length > 0) {
+            logger.warn('Rejected reload of config.yml:');
+            Bot.logConfigIssues(issues);
+            for (const [guildId, errors] of Object.entries(guildIssues)) {
+                logger.warn(`With the settings of guild ${guildId}:`);
+                Bot.logConfigIssues(errors);
+            }
+            return { applied: false, issues: issues, guildIssues: guildIssues, restartKeys: [] };
+        }
+
+        const restartKeys = Bot.RESTART_KEYS.filter(key => !this._cfg.isEqual(cfg, key));
+        this._cfg = cfg;
+        for (const guildId of guildIds) {
+            try {
+                await this.applyGuildConfig(guildId);
+            } catch (e) {
+                logger.error(`Could not apply the new config to guild ${guildId}: ${e}`);
+                guildIssues[guildId] = [{ path: 'config.yml', message: `could not update the alerts: ${e}`, hint: 'they will be updated with the next event of each stream', severity: 'warning' }];
+            }
+        }
+        await this.migrateStreamersFromConfig();
+        this.reconciler?.stop();
+        this.startReconciler();
+        await this.reconciler?.reconcile();
+
+        logger.info('Reloaded config.yml');
+        Bot.logConfigIssues(issues);
+        if (restartKeys.length > 0) logger.warn(`Changes to ${restartKeys.join(', ')} will be applied after a restart`);
+        return { applied: true, issues: issues, guildIssues: guildIssues, restartKeys: restartKeys };
+    }
+
+    /** Starts the periodic reconciliation of the subscriptions, if enabled in the config */
+    private startReconciler() {
+        const interval = this.cfg.has('subscription_sync_interval') ? this.cfg.getNumber('subscription_sync_interval') : 0;
+        this.reconciler?.start(interval);
+    }
+
+    /**
+     * Moves the 'stream_category' and 'notification_channel' keys of the config, used by older versions that tracked
+     * a single category, to an entry of the 'categories' section. If the section is already present the keys are
+     * left in the config, where they are reported as unknown.
+     * @param cfg the config read from config.yml
+     * @private
+     */
+    private static migrateCategoryFromConfig(cfg: Config): void {
+        if (cfg.has('categories') || (!cfg.has('stream_category') && !cfg.has('notification_channel'))) return;
+        if (cfg.has('stream_category')) cfg.move(['stream_category'], ['categories', 'category1', 'name']);
+        if (cfg.has('notification_channel')) cfg.move(['notification_channel'], ['categories', 'category1', 'notification_channel']);
+        logger.info('Migrated stream_category and notification_channel to the categories section of config.yml');
+    }
+
+    /**
+     * Moves the streamers from the 'streams' section of the config, used by older versions, to the database.
+     * Streamers that are not found on Twitch are left in the config, so that the migration is retried on next start.
+     */
+    private async migrateStreamersFromConfig(): Promise<void> {
+        if (!this.cfg.has('streams')) return;
+        const sect = this.cfg.getSection('streams');
+        const logins: string[] = [];
+        for (const login of sect) logins.push(login);
+
+        const users = logins.length > 0 ? await this.twitchApi?.getUsers([], logins) : [];
+        if (!users) {
+            logger.error('Could not migrate streamers from config.yml, retrying on next start');
+            return;
+        }
+
+        for (const user of users) {
+            const key = logins.find(login => login.toLowerCase() === user['login']);
+            if (!key) continue;
+            const added = this.streamers.add({
+                guildId: this.mainGuildId,
+                twitchId: user['id'] as string,
+                login: user['login'] as string,
+                displayName: user['display_name'] as string,
+                discordUserId: sect.getStringIn([key, 'discord_user_id']),
+                roleId: sect.has([key, 'role_id']) ? sect.getStringIn([key, 'role_id']) : undefined,
+                addedAt: Date.now(),
+                enabled: true,
+                broken: false,
+            });
+            this.cfg.remove(['streams', key]);
+            if (added) logger.info(`Migrated streamer ${key} from config.yml to the database`);
+            else logger.warn(`Streamer ${key} from config.yml is already in the database, removed it from the config`);
+        }
+
+        const remaining = [...sect];
+        if (remaining.length === 0) this.cfg.remove(['streams']);
+        else logger.warn(`Could not find Twitch users for ${remaining.join(', ')}, left them in config.yml`);
+    }
+
+    /**
+     * Fetches the current login and display name of all streamers from Twitch, updating the ones that have been
+     * renamed while the bot was offline. Streamers whose Twitch user is missing are marked as broken, and the ones
+     * whose user is back, like after a suspension, are no longer.
+     */
+    private async syncStreamerLogins(): Promise<void> {
+        // Logins and broken state are shared by all the guilds, so each Twitch user is checked once
+        const streamers = this.streamers.getAll()
+            .filter((streamer, i, all) => all.findIndex(s => s.twitchId === streamer.twitchId) === i);
+        if (streamers.length === 0) return;
+        const users = await this.twitchApi?.getUsers(streamers.map(streamer => streamer.twitchId));
+        if (!users) {
+            logger.warn('Could not fetch the current logins of the streamers');
+            return;
+        }
+
+        for (const streamer of streamers) {
+            if (!streamer.broken && !users.some(user => user['id'] === streamer.twitchId)) {
+                logger.warn(`Twitch user of streamer ${streamer.login} no longer exists, marking him as broken`);
+                this.streamers.setBroken(streamer.twitchId, true);
+            }
+        }
+
+        for (const user of users) {
+            const streamer = streamers.find(s => s.twitchId === user['id']);
+            if (!streamer) continue;
+            if (streamer.broken) {
+                logger.info(`Twitch user of streamer ${streamer.login} exists again, he is no longer marked as broken`);
+                this.streamers.setBroken(streamer.twitchId, false);
+            }
+            const login = user['login'] as string;
+            const displayName = user['display_name'] as string;
+            if (streamer.login !== login || streamer.displayName !== displayName) {
+                if (streamer.login !== login) logger.info(`Streamer ${streamer.login} has been renamed to ${login}`);
+                if (this.streamers.updateLogin(streamer.twitchId, login, displayName) > 0) {
+                    logger.warn(`Released the login ${login} from the streamers that had it before it was taken`);
+                }
+            }
+        }
+    }
+
     private registerEventListeners() {
         this._client.on('interactionCreate', interaction => {
-            if (!interaction.isCommand()) return;
             if (!bot) return;
 
-            bot._cmdManager.handleCommandInteraction(bot, interaction as CommandInteraction);
+            if (interaction.isCommand()) {
+                bot._cmdManager.handleCommandInteraction(bot, interaction as CommandInteraction);
+            } else if (interaction.isButton()) {
+                bot._cmdManager.handleButtonInteraction(bot, interaction as ButtonInteraction);
+            } else if (interaction.isSelectMenu()) {
+                bot._cmdManager.handleSelectMenuInteraction(bot, interaction as SelectMenuInteraction);
+            }
         });
 
         this._client.once('ready', this.onReady);
 
         this._client.on('guildMemberRemove', member => {
-            let login: string | undefined = undefined;
-            const sect = bot?.cfg.getSection('streams');
-            if (!sect) return;
-            for (const user of sect) {
-                if (!user) continue;
-                if (sect.getStringIn([user, 'discord_user_id']) === member.id) {
-                    login = user;
-                    break;
-                }
-            }
-
-            if (login) {
-                bot?.twitchApi?.deleteSubscriptions(login).then(() => {
-                    if (!login) return;
-                    bot?.cfg.remove(['streams', login]);
-                    logger.info(`Removed user ${login} from streamers because he left the guild`);
+            const streamer = bot?.streamers.getByDiscordUser(member.guild.id, member.id);
+            if (streamer) {
+                bot?.unregisterStreamer(streamer).then(() => {
+                    logger.info(`Removed user ${streamer.login} from streamers because he left the guild`);
                 }).catch((e) => {
                     logger.error(e);
                 });
             }
         });
+
+        this._client.on('guildCreate', guild => {
+            if (!bot || !bot.dispatcher) return;
+            logger.info(`Added to guild ${guild.name} (${guild.id})`);
+            if (!bot.cfg.has('global_commands') || !bot.cfg.getBoolean('global_commands')) {
+                bot._cmdManager.registerGuildCommands(bot.cfg, guild.id);
+            }
+            bot.setupGuild(guild.id).catch(logger.error);
+        });
+
+        // The streamers and settings of the guild are kept, so that they are restored if the bot is added again
+        this._client.on('guildDelete', guild => {
+            if (!guild.available) return;
+            logger.info(`Removed from guild ${guild.name} (${guild.id})`);
+            bot?.dispatcher?.removeGuild(guild.id);
+            bot?.recapScheduler?.removeGuild(guild.id);
+        });
     }
 
     private async onReady() {
@@ -83,31 +469,54 @@ export class Bot {
             logger.error('Bot is null');
             return;
         }
-        const guildsNum = bot._client.guilds.cache.size;
-        logger.info(`StreamAlert loaded in ${guildsNum} guild`);
-        if (guildsNum > 1) logger.warn('This bot is meant to be used on a single guild only');
+        logger.info(`StreamAlert loaded in ${bot._client.guilds.cache.size} guilds`);
+        if (!bot._client.guilds.cache.has(bot.mainGuildId)) {
+            logger.warn('The bot is not a member of the guild set in guild_id, invite it with the applications.commands scope');
+        }
 
-        bot.streamManager = new StreamManager(bot._client, bot.twitchApi, bot._dataFilePath, bot.cfg);
+        bot.dispatcher = new AlertDispatcher(bot._client, bot.twitchApi, bot.streamers, bot.sessions, bot.dataFilePath,
+            bot.mainGuildId);
+        bot.recapScheduler = new RecapScheduler(bot._client, bot.streamers, bot.sessions);
+        for (const guildId of bot._client.guilds.cache.keys()) await bot.setupGuild(guildId);
+        bot.reconciler = new SubscriptionReconciler(bot.twitchApi, bot.streamers);
 
-        const webhooks = new Webhooks(bot.streamManager, bot.cfg.getNumber('webhooks_port'), bot.cfg.getString('webhooks_secret'), () => {
+        if (bot.useWebSocket()) {
+            const sect = bot.cfg.getSection('websocket');
+            const websocketUrl = sect.has('url') ? sect.getString('url') : EventSubWebSocket.DEFAULT_URL;
+            const websocket = new EventSubWebSocket(bot.dispatcher, websocketUrl, sessionId => {
+                if (!bot) return;
+                logger.info(`Started EventSub WebSocket session '${sessionId}'`);
+                bot.twitchApi?.setWebSocketSession(sessionId);
+                bot.subscribeAllStreamers();
+                bot.startReconciler();
+            });
+            websocket.connect();
+            return;
+        }
+
+        const persistMessageIds = bot.cfg.has('webhooks_persist_message_ids') && bot.cfg.getBoolean('webhooks_persist_message_ids');
+        const messageIds = new MessageIdStore(Webhooks.MAX_MESSAGE_AGE, 10000, persistMessageIds ? bot.dataFilePath : undefined);
+        bot.webhooks = new Webhooks(bot.dispatcher, bot.cfg.getNumber('webhooks_port'), bot.cfg.getString('webhooks_secret'), messageIds, () => {
             if (!bot) return;
             logger.info(`Started Webhooks webserver at '${bot.cfg.getString('webhooks_host')}'`);
-            for (const login of bot.cfg.getSection('streams')) {
-                if (login) {
-                    bot.twitchApi?.subscribeToStreamUpdates(login)
-                        .then(() => logger.debug(`Finished subscribing process for ${login}`));
-                }
-            }
+            bot.subscribeAllStreamers();
+            bot.startReconciler();
         });
-        webhooks.startWebserver();
+        bot.webhooks.startWebserver();
     }
 
     start() {
         if (process.env.DELETE_ALL_SUBS) {
             this.twitchApi?.deleteAllSubscriptions();
         } else {
-            this._client.login(this.cfg.getString('token'))
-                .then(() => logger.debug('Bot has logged in'));
+            this.migrateStreamersFromConfig()
+                .then(() => this.syncStreamerLogins())
+                .then(() => this._client.login(this.cfg.getString('token')))
+                .then(() => logger.debug('Bot has logged in'))
+                .catch(e => {
+                    logger.error(`Could not start the bot: ${e}`);
+                    process.exit(1);
+                });
         }
     }
 }
@@ -0,0 +1,170 @@
+import log from './log.js';
+import { Client, MessageEmbed, Snowflake, TextChannel } from 'discord.js';
+import { Config } from './config.js';
+import { CronExpression } from './cron.js';
+import { SessionRepository } from './session_repository.js';
+import { StreamerRepository } from './streamer_repository.js';
+import { formatDuration } from './helper.js';
+import { clipSessions, getPeriod, StatsPeriod, summarizeByStreamer, summarizeSessions } from './stats.js';
+
+const logger = log('RecapScheduler');
+
+/** A recap set in the 'recaps' section of the config of a guild */
+export interface Recap {
+    /** Key of the recap in the config */
+    key: string;
+    channelId: Snowflake;
+    schedule: CronExpression;
+    /** Name of the period covered by the recap, one of PERIOD_CHOICES, relative to the time it is posted */
+    period: string;
+    title: string;
+}
+
+/** Posts the recaps of the streams of each guild to their channels, following the schedules of the config */
+export class RecapScheduler {
+    /** Max delay of a timer, longer waits like monthly recaps are split in more timers */
+    private static readonly MAX_TIMER_DELAY = 2 ** 31 - 1;
+    /** Max number of streamers listed with their time streamed, the other ones are only counted */
+    private static readonly MAX_STREAMERS = 15;
+
+    private readonly _client: Client;
+    private readonly _streamers: StreamerRepository;
+    private readonly _sessions: SessionRepository;
+
+    /** Maps guildId to the timers of the recaps of the guild, by key of the recap */
+    private readonly _timers: Record<string, Record<string, NodeJS.Timeout>> = {};
+
+    constructor(client: Client, streamers: StreamerRepository, sessions: SessionRepository) {
+        this._client = client;
+        this._streamers = streamers;
+        this._sessions = sessions;
+    }
+
+    /**
+     * Gets the recaps set in the config of a guild.
+     * @param cfg the config of the guild, it must have been validated
+     */
+    static getRecaps(cfg: Config): Recap[] {
+        if (!cfg.has('recaps')) return [];
+        const sect = cfg.getSection('recaps');
+        const recaps: Recap[] = [];
+        for (const key of sect) {
+            const recap = sect.getSection(key);
+            recaps.push({
+                key: key,
+                channelId: recap.getString('channel'),
+                schedule: new CronExpression(recap.getString('schedule')),
+                period: recap.has('period') ? recap.getString('period') : 'week',
+                title: recap.has('title') ? recap.getString('title') : 'Stream recap',
+            });
+        }
+        return recaps;
+    }
+
+    /**
+     * Schedules the recaps of a guild, replacing the ones of its previous config.
+     * @param guildId the id of the guild
+     * @param cfg the config of the guild, it must have been validated
+     */
+    setGuildConfig(guildId: string, cfg: Config): void {
+        this.removeGuild(guildId);
+        this._timers[guildId] = {};
+        for (const recap of RecapScheduler.getRecaps(cfg)) {
+            this.schedule(guildId, recap, recap.schedule.next(new Date()));
+        }
+    }
+
+    /**
+     * Stops posting the recaps of a guild.
+     * @param guildId the id of the guild
+     */
+    removeGuild(guildId: string): void {
+        Object.values(this._timers[guildId] ?? {}).forEach(timer => clearTimeout(timer));
+        delete this._timers[guildId];
+    }
+
+    /**
+     * Waits until the given time to post a recap, then schedules the next one.
+     * @param guildId the id of the guild
+     * @param recap the recap to post
+     * @param at the time when the recap must be posted
+     * @private
+     */
+    private schedule(guildId: string, recap: Recap, at: Date): void {
+        const delay = Math.min(Math.max(0, at.getTime() - Date.now()), RecapScheduler.MAX_TIMER_DELAY);
+        this._timers[guildId][recap.key] = setTimeout(() => {
+            if (Date.now() < at.getTime()) {
+                this.schedule(guildId, recap, at);
+                return;
+            }
+            this.postRecap(guildId, recap, at).catch(e => logger.error(`Error while posting recap '${recap.key}': ${e}`));
+            this.schedule(guildId, recap, recap.schedule.next(at));
+        }, delay);
+    }
+
+    /**
+     * Posts a recap to its channel, if it is a text channel of the guild.
+     * @param guildId the id of the guild
+     * @param recap the recap to post
+     * @param at the time when the recap is posted, the end of the period it covers
+     * @private
+     */
+    private async postRecap(guildId: string, recap: Recap, at: Date): Promise<void> {
+        const channel = await this._client.channels.fetch(recap.channelId).catch(() => null);
+        if (!channel || !(channel instanceof TextChannel)) {
+            logger.error(`Invalid channel id '${recap.channelId}' for recap '${recap.key}', check config`);
+            return;
+        }
+        if (channel.guildId !== guildId) {
+            logger.error(`Channel '${recap.channelId}' of recap '${recap.key}' is not in guild ${guildId}, check config`);
+            return;
+        }
+        await channel.send({ embeds: [this.buildRecap(guildId, getPeriod(recap.period, at), recap.title)] });
+        logger.info(`Posted recap '${recap.key}' in guild ${guildId}`);
+    }
+
+    /**
+     * Builds the embed of a recap from the history of the streams of a guild.
+     * @param guildId the id of the guild
+     * @param period the period covered by the recap
+     * @param title the title of the embed
+     */
+    buildRecap(guildId: string, period: StatsPeriod, title: string): MessageEmbed {
+        const sessions = clipSessions(this._sessions.getSessions(guildId, period.from, period.to), period);
+        const summary = summarizeSessions(sessions);
+        const streamers = summarizeByStreamer(sessions);
+
+        const hours = streamers.slice(0, RecapScheduler.MAX_STREAMERS)
+            .map(s => `${s.displayName}: ${formatDuration(s.duration)} (${s.sessions} ${s.sessions === 1 ? 'stream' : 'streams'})`);
+        if (streamers.length > RecapScheduler.MAX_STREAMERS) hours.push(`and ${streamers.length - RecapScheduler.MAX_STREAMERS} more`);
+
+        const added = this._streamers.getAll(guildId)
+            .filter(streamer => streamer.addedAt >= period.from && streamer.addedAt < period.to)
+            .map(streamer => streamer.displayName);
+
+        const longest = summary.longest;
+        const longestText = longest
+            ? `${longest.displayName}: ${formatDuration(longest.endedAt - longest.startedAt)} on <t:${Math.floor(longest.startedAt / 1000)}:D>`
+            : 'None';
+
+        const raids: Record<string, number> = {};
+        for (const session of sessions) {
+            if (session.raidTarget) raids[session.raidTarget] = (raids[session.raidTarget] ?? 0) + 1;
+        }
+        const [raided, raidCount] = Object.entries(raids).sort(([, a], [, b]) => b - a)[0] ?? [];
+        const raidedText = raided
+            ? `[${raided}](https://www.twitch.tv/${raided}) (${raidCount} ${raidCount === 1 ? 'raid' : 'raids'})`
+            : 'None';
+
+        return new MessageEmbed()
+            .setColor('PURPLE')
+            .setTitle(title)
+            .setDescription(`Period: ${period.label}\n${formatDuration(summary.duration)} streamed in ${summary.sessions} ` +
+                `${summary.sessions === 1 ? 'stream' : 'streams'} by ${streamers.length} ${streamers.length === 1 ? 'streamer' : 'streamers'}`)
+            .addField('Time streamed', hours.join('\n') || 'Nobody has streamed')
+            .addField('New streamers', added.join(', ').substring(0, 1024) || 'None')
+            .addField('Longest stream', longestText, true)
+            .addField('Most raided channel', raidedText, true)
+            .setTimestamp(period.to);
+    }
+}
@@ -0,0 +1,147 @@
+import Database from 'better-sqlite3';
+
+/** A category played during a stream, from the given time until the next change */
+export interface CategoryChange {
+    category: string;
+    /** Time when the stream switched to the category, in milliseconds */
+    at: number;
+}
+
+/** A title set during a stream, from the given time until the next change */
+export interface TitleChange {
+    title: string;
+    /** Time when the title has been set, in milliseconds */
+    at: number;
+}
+
+/** A stream that has ended, as recorded by the stream manager of a guild */
+export interface StreamSession {
+    /** Id of the Discord guild that tracked the stream */
+    guildId: string;
+    twitchId: string;
+    /** Login of the streamer at the end of the stream */
+    login: string;
+    /** Display name of the streamer at the end of the stream */
+    displayName: string;
+    /** Time when the stream has started, in milliseconds */
+    startedAt: number;
+    /** Time when the stream has ended, in milliseconds */
+    endedAt: number;
+    peakViewers: number;
+    /** Average of the viewer counts sampled during the stream, undefined if none has been sampled */
+    averageViewers?: number;
+    /** Login of the channel raided at the end of the stream */
+    raidTarget?: string;
+    /** Categories played during the stream, in order */
+    categories: CategoryChange[];
+    /** Titles set during the stream, in order */
+    titles: TitleChange[];
+}
+
+/** Row of the stream_sessions table */
+interface SessionRow {
+    id: number;
+    guild_id: string;
+    twitch_id: string;
+    login: string;
+    display_name: string;
+    started_at: number;
+    ended_at: number;
+    peak_viewers: number;
+    average_viewers: number | null;
+    raid_target: string | null;
+    /** Categories played during the stream, as JSON */
+    categories: string;
+    /** Titles set during the stream, as JSON */
+    titles: string;
+}
+
+/** Stores the history of the streams of each guild in the SQLite database */
+export class SessionRepository {
+    private readonly _db: Database.Database;
+
+    constructor(dataFilePath: string) {
+        this._db = new Database(dataFilePath);
+        this._db.prepare(`CREATE TABLE IF NOT EXISTS stream_sessions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            guild_id TEXT NOT NULL,
+            twitch_id TEXT NOT NULL,
+            login TEXT NOT NULL,
+            display_name TEXT NOT NULL,
+            started_at INTEGER NOT NULL,
+            ended_at INTEGER NOT NULL,
+            peak_viewers INTEGER NOT NULL,
+            average_viewers INTEGER,
+            raid_target TEXT,
+            categories TEXT NOT NULL,
+            titles TEXT NOT NULL
+        )`).run();
+        this._db.prepare('CREATE INDEX IF NOT EXISTS stream_sessions_guild ON stream_sessions (guild_id, started_at)').run();
+    }
+
+    /**
+     * Converts a row of the stream_sessions table to a session.
+     * @param row the row to convert
+     * @private
+     */
+    private static fromRow(row: SessionRow): StreamSession {
+        return {
+            guildId: row.guild_id,
+            twitchId: row.twitch_id,
+            login: row.login,
+            displayName: row.display_name,
+            startedAt: row.started_at,
+            endedAt: row.ended_at,
+            peakViewers: row.peak_viewers,
+            averageViewers: row.average_viewers ?? undefined,
+            raidTarget: row.raid_target ?? undefined,
+            categories: JSON.parse(row.categories),
+            titles: JSON.parse(row.titles),
+        };
+    }
+
+    /**
+     * Adds a session that has ended.
+     * @param session the session to add
+     */
+    add(session: StreamSession): void {
+        this._db.prepare(`INSERT INTO stream_sessions
+            (guild_id, twitch_id, login, display_name, started_at, ended_at, peak_viewers, average_viewers,
+            raid_target, categories, titles)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+            .run(session.guildId, session.twitchId, session.login.toLowerCase(), session.displayName,
+                session.startedAt, session.endedAt, session.peakViewers, session.averageViewers ?? null,
+                session.raidTarget ?? null, JSON.stringify(session.categories), JSON.stringify(session.titles));
+    }
+
+    /**
+     * Sets the channel raided at the end of the last session of a streamer, if the session has no raid yet and ended
+     * after the given time. Used for raids received after the stream has already been recorded.
+     * @param guildId the id of the guild
+     * @param twitchId the id of the streamer on Twitch
+     * @param raidTarget the login of the raided channel
+     * @param endedAfter the min end time of the session, in milliseconds
+     * @return if a session has been updated
+     */
+    setLastRaidTarget(guildId: string, twitchId: string, raidTarget: string, endedAfter: number): boolean {
+        const result = this._db.prepare(`UPDATE stream_sessions SET raid_target = ?
+            WHERE id = (SELECT id FROM stream_sessions WHERE guild_id = ? AND twitch_id = ? ORDER BY ended_at DESC LIMIT 1)
+            AND ended_at >= ? AND raid_target IS NULL`)
+            .run(raidTarget, guildId, twitchId, endedAfter);
+        return result.changes > 0;
+    }
+
+    /**
+     * Gets the sessions of a guild that overlap the given period, even if they started before it or ended after it,
+     * ordered by start time.
+     * @param guildId the id of the guild
+     * @param from the start of the period, in milliseconds
+     * @param to the end of the period, in milliseconds, excluded
+     */
+    getSessions(guildId: string, from: number, to: number): StreamSession[] {
+        const rows = this._db.prepare(`SELECT * FROM stream_sessions
+            WHERE guild_id = ? AND ended_at > ? AND started_at < ? ORDER BY started_at`)
+            .all(guildId, from, to) as SessionRow[];
+        return rows.map(SessionRepository.fromRow);
+    }
+}
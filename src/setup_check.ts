@@ -0,0 +1,116 @@
+import { Client, Guild, PermissionResolvable, Permissions, TextChannel } from 'discord.js';
+import { Config } from './config.js';
+import { ConfigIssue } from './config_schema.js';
+
+/** Permissions needed in the channels where the bot sends messages */
+const CHANNEL_PERMISSIONS: [PermissionResolvable, string][] = [
+    [Permissions.FLAGS.VIEW_CHANNEL, 'View Channel'],
+    [Permissions.FLAGS.SEND_MESSAGES, 'Send Messages'],
+    [Permissions.FLAGS.EMBED_LINKS, 'Embed Links'],
+];
+
+/**
+ * Checks that a channel of the config exists in the guild and that the bot can send embeds there.
+ * @param guild the guild of the bot
+ * @param path the path of the channel id in the config
+ * @param channelId the id of the channel
+ * @param issues the list where problems are added
+ * @param mentionsFollowers if the alerts sent in the channel mention the follower roles, that are not mentionable
+ */
+async function checkChannel(guild: Guild, path: string, channelId: string, issues: ConfigIssue[], mentionsFollowers = false): Promise<void> {
+    const channel = await guild.channels.fetch(channelId).catch(() => null);
+    if (!channel) {
+        issues.push({ path: path, message: `channel ${channelId} not found in the guild`, hint: 'check that the ID is of a channel of the guild and that the bot can see it', severity: 'error' });
+        return;
+    }
+    if (!(channel instanceof TextChannel)) {
+        issues.push({ path: path, message: `#${channel.name} is not a text channel`, severity: 'error' });
+        return;
+    }
+
+    const permissions = guild.me ? channel.permissionsFor(guild.me) : null;
+    const missing = CHANNEL_PERMISSIONS.filter(([flag]) => !permissions?.has(flag)).map(([, name]) => name);
+    if (missing.length > 0) {
+        issues.push({ path: path, message: `the bot is missing ${missing.join(', ')} in #${channel.name}`, hint: 'grant them to the role of the bot in the channel settings', severity: 'error' });
+    }
+    if (mentionsFollowers && !permissions?.has(Permissions.FLAGS.MENTION_EVERYONE)) {
+        issues.push({ path: path, message: `the bot is missing Mention Everyone in #${channel.name}, so the follower roles in the alerts won't be pinged`, hint: 'grant it to the role of the bot in the channel settings', severity: 'warning' });
+    }
+}
+
+/**
+ * Checks that a role of the config exists in the guild and, if the bot gives it to members, that it can do it.
+ * @param guild the guild of the bot
+ * @param path the path of the role id in the config
+ * @param roleId the id of the role
+ * @param assigned if the bot gives the role to members
+ * @param issues the list where problems are added
+ */
+async function checkRole(guild: Guild, path: string, roleId: string, assigned: boolean, issues: ConfigIssue[]): Promise<void> {
+    const role = await guild.roles.fetch(roleId).catch(() => null);
+    if (!role) {
+        issues.push({ path: path, message: `role ${roleId} not found in the guild`, hint: 'check that the ID is of a role of the guild', severity: 'error' });
+        return;
+    }
+    if (assigned && guild.me && role.position >= guild.me.roles.highest.position) {
+        issues.push({ path: path, message: `role @${role.name} is above the highest role of the bot, so the bot can't assign it`, hint: 'move the role of the bot above it in the server settings', severity: 'error' });
+    }
+}
+
+/**
+ * Checks that the guild, channels and roles in the config of a guild exist and that the bot has the permissions it
+ * needs. The config must have been validated before.
+ * @param client the logged in Discord client
+ * @param guildId the id of the guild to check
+ * @param cfg the config of the guild
+ * @return all the problems found, empty if the setup is correct
+ */
+export async function checkDiscordSetup(client: Client, guildId: string, cfg: Config): Promise<ConfigIssue[]> {
+    const issues: ConfigIssue[] = [];
+    const guild = await client.guilds.fetch(guildId).catch(() => undefined);
+    if (!guild) {
+        issues.push({ path: 'guild_id', message: 'the bot is not a member of the guild', hint: 'invite the bot to the guild with the applications.commands scope', severity: 'error' });
+        return issues;
+    }
+    if (!guild.me?.permissions.has(Permissions.FLAGS.MANAGE_ROLES)) {
+        issues.push({ path: 'guild_id', message: 'the bot is missing the Manage Roles permission', hint: 'grant it to the role of the bot in the server settings', severity: 'error' });
+    }
+
+    const channels: [string, string, boolean?][] = [['moderation_channel', cfg.getString('moderation_channel')]];
+    if (cfg.has('admin_log_channel')) channels.push(['admin_log_channel', cfg.getString('admin_log_channel')]);
+    if (cfg.has('on_offline') && cfg.getString('on_offline') === 'edit_and_archive') {
+        channels.push(['archive_channel', cfg.getString('archive_channel')]);
+    }
+    if (cfg.has('raid_announcement')) {
+        channels.push(['raid_announcement/channel', cfg.getSection('raid_announcement').getString('channel')]);
+    }
+    if (cfg.has('recaps')) {
+        const recaps = cfg.getSection('recaps');
+        for (const key of recaps) channels.push([`recaps/${key}/channel`, recaps.getSection(key).getString('channel')]);
+    }
+
+    // Roles the bot gives to members, the other ones are only mentioned or checked
+    const roles: [string, string, boolean][] = [
+        ['streamer_role', cfg.getString('streamer_role'), true],
+        ['streamer_online_role', cfg.getString('streamer_online_role'), true],
+    ];
+    if (cfg.has('ping_role')) roles.push(['ping_role', cfg.getString('ping_role'), false]);
+    if (cfg.has('ping_roles')) cfg.getStringArray('ping_roles').forEach(id => roles.push(['ping_roles', id, false]));
+    if (cfg.has(['permissions', 'admin_roles'])) {
+        cfg.getSection('permissions').getStringArray('admin_roles').forEach(id => roles.push(['permissions/admin_roles', id, false]));
+    }
+
+    const categories = cfg.getSection('categories');
+    for (const key of categories) {
+        const sect = categories.getSection(key);
+        const alertContent = sect.has('alert_content') ? sect.getString('alert_content')
+            : cfg.has('alert_content') ? cfg.getString('alert_content') : '';
+        channels.push([`categories/${key}/notification_channel`, sect.getString('notification_channel'), alertContent.includes('followers')]);
+        if (sect.has('online_role')) roles.push([`categories/${key}/online_role`, sect.getString('online_role'), true]);
+        if (sect.has('ping_role')) roles.push([`categories/${key}/ping_role`, sect.getString('ping_role'), false]);
+    }
+
+    for (const [path, channelId, mentionsFollowers] of channels) await checkChannel(guild, path, channelId, issues, mentionsFollowers);
+    for (const [path, roleId, assigned] of roles) await checkRole(guild, path, roleId, assigned, issues);
+    return issues;
+}
@@ -0,0 +1,173 @@
+import { StreamSession } from './session_repository.js';
+
+/** A period of time covered by statistics */
+export interface StatsPeriod {
+    /** Start of the period, in milliseconds */
+    from: number;
+    /** End of the period, in milliseconds, excluded */
+    to: number;
+    /** Description of the period, like 'last 7 days' */
+    label: string;
+}
+
+/** Statistics of a group of sessions */
+export interface SessionSummary {
+    sessions: number;
+    /** Total time streamed, in milliseconds */
+    duration: number;
+    /** Time streamed in each category, in milliseconds, sorted from the most streamed */
+    categories: [string, number][];
+    peakViewers: number;
+    /** Average viewers weighted by the duration of the sessions, undefined if no viewers have been sampled */
+    averageViewers?: number;
+    longest?: StreamSession;
+}
+
+/** Statistics of the sessions of a streamer */
+export interface StreamerSummary extends SessionSummary {
+    twitchId: string;
+    /** Login of the streamer in his most recent session */
+    login: string;
+    /** Display name of the streamer in his most recent session */
+    displayName: string;
+}
+
+/** Names of the periods that can be chosen in commands, mapped by their label */
+export const PERIOD_CHOICES: [string, string][] = [
+    ['Last 7 days', 'week'],
+    ['Last 30 days', 'month'],
+    ['This month', 'this_month'],
+    ['Last month', 'last_month'],
+    ['This year', 'this_year'],
+    ['All time', 'all'],
+];
+
+/**
+ * Gets the period with the given name, relative to the given time. Months and years follow the time zone of the bot.
+ * @param name the name of the period, one of PERIOD_CHOICES
+ * @param now the current time
+ */
+export function getPeriod(name: string, now = new Date()): StatsPeriod {
+    const day = 24 * 60 * 60 * 1000;
+    switch (name) {
+    case 'month':
+        return { from: now.getTime() - 30 * day, to: now.getTime(), label: 'last 30 days' };
+    case 'this_month':
+        return { from: new Date(now.getFullYear(), now.getMonth(), 1).getTime(), to: now.getTime(),
+            label: now.toLocaleString('en', { month: 'long', year: 'numeric' }) };
+    case 'last_month': {
+        const start = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+        return { from: start.getTime(), to: new Date(now.getFullYear(), now.getMonth(), 1).getTime(),
+            label: start.toLocaleString('en', { month: 'long', year: 'numeric' }) };
+    }
+    case 'this_year':
+        return { from: new Date(now.getFullYear(), 0, 1).getTime(), to: now.getTime(), label: `${now.getFullYear()}` };
+    case 'all':
+        return { from: 0, to: now.getTime(), label: 'all time' };
+    default:
+        return { from: now.getTime() - 7 * day, to: now.getTime(), label: 'last 7 days' };
+    }
+}
+
+/**
+ * Clips a list of changes made during a session to a part of it, the change in effect at its start is moved there.
+ * @param changes the changes, in order
+ * @param from the start of the part, in milliseconds
+ * @param to the end of the part, in milliseconds, excluded
+ */
+function clipChanges<T extends { at: number }>(changes: T[], from: number, to: number): T[] {
+    const current = changes.filter(change => change.at <= from).pop();
+    const later = changes.filter(change => change.at > from && change.at < to);
+    return current ? [{ ...current, at: from }, ...later] : later;
+}
+
+/**
+ * Clips sessions to a period, so that the streams that overlap its bounds are counted only for the time inside it.
+ * The sessions that don't overlap the period are removed.
+ * @param sessions the sessions
+ * @param period the period
+ */
+export function clipSessions(sessions: StreamSession[], period: StatsPeriod): StreamSession[] {
+    return sessions
+        .filter(session => session.endedAt > period.from && session.startedAt < period.to)
+        .map(session => {
+            const startedAt = Math.max(session.startedAt, period.from);
+            const endedAt = Math.min(session.endedAt, period.to);
+            return {
+                ...session,
+                startedAt: startedAt,
+                endedAt: endedAt,
+                categories: clipChanges(session.categories, startedAt, endedAt),
+                titles: clipChanges(session.titles, startedAt, endedAt),
+            };
+        });
+}
+
+/**
+ * Gets the time spent in each category during a session.
+ * @param session the session
+ * @return the time in milliseconds, mapped by the name of the category
+ */
+export function getCategoryDurations(session: StreamSession): Record<string, number> {
+    const durations: Record<string, number> = {};
+    session.categories.forEach((change, i) => {
+        const end = i + 1 < session.categories.length ? session.categories[i + 1].at : session.endedAt;
+        durations[change.category] = (durations[change.category] ?? 0) + Math.max(0, end - change.at);
+    });
+    return durations;
+}
+
+/**
+ * Computes the statistics of a group of sessions.
+ * @param sessions the sessions
+ */
+export function summarizeSessions(sessions: StreamSession[]): SessionSummary {
+    const categories: Record<string, number> = {};
+    let duration = 0;
+    let peakViewers = 0;
+    let viewerTime = 0;
+    let sampledDuration = 0;
+    let longest: StreamSession | undefined = undefined;
+    for (const session of sessions) {
+        const sessionDuration = session.endedAt - session.startedAt;
+        duration += sessionDuration;
+        peakViewers = Math.max(peakViewers, session.peakViewers);
+        if (session.averageViewers !== undefined) {
+            viewerTime += session.averageViewers * sessionDuration;
+            sampledDuration += sessionDuration;
+        }
+        if (!longest || sessionDuration > longest.endedAt - longest.startedAt) longest = session;
+        const sessionCategories = getCategoryDurations(session);
+        for (const category in sessionCategories) {
+            categories[category] = (categories[category] ?? 0) + sessionCategories[category];
+        }
+    }
+
+    return {
+        sessions: sessions.length,
+        duration: duration,
+        categories: Object.entries(categories).sort(([, a], [, b]) => b - a),
+        peakViewers: peakViewers,
+        averageViewers: sampledDuration > 0 ? Math.round(viewerTime / sampledDuration) : undefined,
+        longest: longest,
+    };
+}
+
+/**
+ * Computes the statistics of each streamer in a group of sessions.
+ * @param sessions the sessions, ordered by start time
+ * @return the statistics, sorted from the streamer who streamed the most
+ */
+export function summarizeByStreamer(sessions: StreamSession[]): StreamerSummary[] {
+    const byStreamer = new Map<string, StreamSession[]>();
+    for (const session of sessions) {
+        byStreamer.set(session.twitchId, [...byStreamer.get(session.twitchId) ?? [], session]);
+    }
+
+    const summaries: StreamerSummary[] = [];
+    for (const [twitchId, streamerSessions] of byStreamer) {
+        const last = streamerSessions[streamerSessions.length - 1];
+        summaries.push({ ...summarizeSessions(streamerSessions), twitchId: twitchId, login: last.login, displayName: last.displayName });
+    }
+    return summaries.sort((a, b) => b.duration - a.duration);
+}
@@ -1,53 +1,293 @@
 import log from './log.js';
-import { format, JsonPayload } from './helper.js';
+import { format, formatDuration, JsonPayload } from './helper.js';
 import { TwitchApi } from './twitch/twitch_api.js';
 import { Client, ColorResolvable, GuildMember, MessageEmbed, Snowflake, TextChannel } from 'discord.js';
 import Keyv from 'keyv';
 import Database from 'better-sqlite3';
 import { Config } from './config.js';
+import { EmbedOverrides, Streamer, StreamerRepository } from './streamer_repository.js';
+import { EventQueue } from './event_queue.js';
+import { CategoryChange, SessionRepository, TitleChange } from './session_repository.js';
+import { Template, TemplateError } from './template.js';
 
 const logger = log('StreamManager');
 
+/** Template of a field of the alert embed */
+interface EmbedFieldTemplate {
+    name: string;
+    value: string;
+    inline: boolean;
+}
+
+/** State of an online stream, it is saved to the database so that it survives restarts */
 interface StreamEvent {
+    broadcasterLogin: string;
     broadcasterName: string;
     category: string;
+    title: string;
+    /** Key of the tracked category in the config, undefined if the stream is not in a tracked category */
+    trackedCategory?: string;
     messageId?: Snowflake;
+    /** Id of the channel where the alert message has been sent */
+    channelId?: Snowflake;
+    /** Time when the stream has started, as returned by the Twitch API */
+    startedAt: string;
+    /** Highest viewer count sampled while the stream was live */
+    peakViewers: number;
+    /** Names of all the categories played during the stream */
+    categories: string[];
+    /** Login of the channel that has been raided at the end of the stream */
+    raidTarget?: string;
+    /** Time when the stream went offline, set while waiting for the grace period to end in case it comes back */
+    offlineAt?: number;
+    /** Categories played during the stream with the time they have been set, missing in streams saved by older versions */
+    categoryChanges?: CategoryChange[];
+    /** Titles set during the stream with the time they have been set, missing in streams saved by older versions */
+    titleChanges?: TitleChange[];
+    /** Sum of the viewer counts sampled while the stream was live, used to compute the average */
+    viewerTotal?: number;
+    /** Number of viewer counts sampled while the stream was live */
+    viewerSamples?: number;
+    /** Last time the stream has been seen live, used as its end if it ends while the bot is offline */
+    lastSeenAt?: number;
+    /** Time when the last alert for the broadcaster has been sent, even for a previous stream, to keep the cooldown */
+    lastAlertAt?: number;
 }
 
+/** Sends the alerts of the streamers tracked by a guild, according to the config of the guild */
 export class StreamManager {
+    /** Fields of the alert embed used when the config doesn't set them */
+    private static readonly DEFAULT_EMBED_FIELDS: EmbedFieldTemplate[] = [
+        { name: 'Viewers', value: '${viewers}', inline: true },
+        { name: 'Uptime', value: '${uptime}', inline: true },
+    ];
+    /** Paths of the templates inside the embed section of the config */
+    private static readonly EMBED_TEMPLATE_PATHS = [['title'], ['description'], ['author', 'name'], ['author', 'icon'],
+        ['author', 'url'], ['footer', 'text'], ['footer', 'icon'], ['thumbnail']];
+    /** Names of the parameters available in the templates of the alerts */
+    static readonly STREAM_TEMPLATE_PARAMS = ['name', 'login', 'url', 'streamTitle', 'category', 'categoryId', 'viewers',
+        'tags', 'language', 'startedAt', 'uptime', 'mature', 'avatar', 'member', 'memberName', 'pingRole', 'followers'];
+    /** Names of the parameters available in the templates of the summaries */
+    static readonly SUMMARY_TEMPLATE_PARAMS = ['name', 'login', 'url', 'streamTitle', 'category', 'categories',
+        'duration', 'peakViewers', 'raidTarget'];
+    /** Names of the parameters available in the template of the raid announcement */
+    static readonly RAID_TEMPLATE_PARAMS = ['from', 'to', 'viewers', 'url'];
+    /** Max time between the end of a stream and a raid received after it, for the raid to be added to the stream */
+    private static readonly LATE_RAID_WINDOW = 5 * 60 * 1000;
+
     private readonly _client: Client;
     private readonly _twitchApi: TwitchApi;
+    private readonly _streamers: StreamerRepository;
+    /** History of the streams of the guild, where streams are saved when they end */
+    private readonly _sessions: SessionRepository;
+    /** Id of the guild where the alerts are sent */
+    private readonly _guildId: string;
 
     /** Maps broadcasterId to the object representing his online stream */
     private readonly _onlineStreams: Record<string, StreamEvent>;
-    /** Key/Value store containing all sent alert message ids */
+    /** Key/Value store mirroring _onlineStreams */
     private readonly _cache: Keyv;
+    /** Namespace of the online streams of the guild in the key/value store */
+    private readonly _namespace: string;
 
     private readonly _dataFilePath;
-    private readonly _cfg: Config;
+    /** Current config, replaced when it is reloaded */
+    private _cfg: Config;
+
+    /** Timer that periodically refreshes the info shown in the alerts */
+    private _refreshTimer?: NodeJS.Timer;
+    /** Queue that handles the events of each broadcaster one at a time, shared by the managers of all guilds */
+    private readonly _eventQueue: EventQueue;
+    /** Maps broadcasterId to the timer that ends his stream when the offline grace period is over */
+    private readonly _offlineTimers: Record<string, NodeJS.Timeout> = {};
+    /**
+     * Maps broadcasterId to the time when the last alert for his streams has been sent, it is saved with the online
+     * stream and restored from it after a restart
+     */
+    private readonly _lastAlerts: Record<string, number> = {};
+    /** Maps broadcasterId to the url of his Twitch profile image */
+    private readonly _avatars: Record<string, string> = {};
 
-    constructor(client: Client, twitchApi: TwitchApi, dataFilePath: string, cfg: Config) {
+    /**
+     * Creates the manager of a guild, restoring the online streams saved for it.
+     * @param client the Discord client
+     * @param twitchApi the Twitch API
+     * @param streamers the repository of the streamers of all guilds
+     * @param sessions the repository of the stream history of all guilds
+     * @param dataFilePath the path of the database file
+     * @param cfg the config of the guild, it must have been validated
+     * @param guildId the id of the guild
+     * @param eventQueue the queue where the events of the broadcasters are handled
+     */
+    constructor(client: Client, twitchApi: TwitchApi, streamers: StreamerRepository, sessions: SessionRepository,
+        dataFilePath: string, cfg: Config, guildId: string, eventQueue: EventQueue) {
         this._client = client;
         this._twitchApi = twitchApi;
+        this._streamers = streamers;
+        this._sessions = sessions;
+        this._guildId = guildId;
+        this._eventQueue = eventQueue;
 
         this._onlineStreams = {};
-        this._cache = new Keyv('sqlite://' + dataFilePath, { namespace: 'streamManager' });
+        this._namespace = StreamManager.getNamespace(guildId);
+        this._cache = new Keyv('sqlite://' + dataFilePath, { namespace: this._namespace });
 
         this._dataFilePath = dataFilePath;
         this._cfg = cfg;
 
-        this.cleanupMessagesAndRoles().then(() => logger.debug('Finished cleaning up tracked messages'));
+        this.restoreOnlineStreams()
+            .then(() => logger.debug('Finished restoring online streams'))
+            .catch(e => logger.error(`Error while restoring online streams: ${e}`));
+        this.startRefreshTimer();
+    }
+
+    /**
+     * Gets the namespace of the online streams of a guild in the key/value store.
+     * @param guildId the id of the guild
+     */
+    static getNamespace(guildId: string): string {
+        return `streamManager-${guildId}`;
+    }
+
+    /**
+     * Starts refreshing the alerts periodically with the interval set in the config, replacing the running timer.
+     * @private
+     */
+    private startRefreshTimer(): void {
+        clearInterval(this._refreshTimer);
+        this._refreshTimer = undefined;
+        const refreshInterval = this.getMinutes('alert_refresh_interval');
+        if (refreshInterval > 0) {
+            this._refreshTimer = setInterval(() => {
+                this.refreshAlerts()
+                    .then(() => logger.debug('Finished refreshing alerts'))
+                    .catch(e => logger.error(`Error while refreshing alerts: ${e}`));
+            }, refreshInterval);
+        }
+    }
+
+    /**
+     * Validates all the templates in the config, so that errors are found when the bot starts instead of when
+     * an alert is sent.
+     * @param cfg the config to validate
+     * @throws TemplateError if a template is not valid
+     */
+    static validateTemplates(cfg: Config): void {
+        const check = (sect: Config, path: string[], names: readonly string[], location: string) => {
+            if (!sect.has(path)) return;
+            try {
+                new Template(sect.getStringIn(path), names);
+            } catch (e) {
+                if (e instanceof TemplateError) throw new TemplateError(`Invalid template '${location}/${path.join('/')}': ${e.message}`);
+                throw e;
+            }
+        };
+        const checkAlert = (sect: Config, location: string) => {
+            for (const path of StreamManager.EMBED_TEMPLATE_PATHS) {
+                check(sect, ['embed', ...path], StreamManager.STREAM_TEMPLATE_PARAMS, location);
+            }
+            if (sect.has(['embed', 'fields'])) {
+                sect.getSectionList(['embed', 'fields']).forEach((field, i) => {
+                    check(field, ['name'], StreamManager.STREAM_TEMPLATE_PARAMS, `${location}/embed/fields/${i}`);
+                    check(field, ['value'], StreamManager.STREAM_TEMPLATE_PARAMS, `${location}/embed/fields/${i}`);
+                });
+            }
+            if (sect.has(['embed', 'image_size']) && !/^(\d+x\d+|none)$/.test(sect.getStringIn(['embed', 'image_size']))) {
+                throw new TemplateError(`Invalid image size '${location}/embed/image_size', it must be like '440x248' or 'none'`);
+            }
+            check(sect, ['alert_content'], StreamManager.STREAM_TEMPLATE_PARAMS, location);
+        };
+
+        checkAlert(cfg, '');
+        const categories = cfg.getSection('categories');
+        for (const key of categories) checkAlert(categories.getSection(key), `/categories/${key}`);
+        check(cfg, ['summary_embed', 'title'], StreamManager.SUMMARY_TEMPLATE_PARAMS, '');
+        check(cfg, ['raid_announcement', 'message'], StreamManager.RAID_TEMPLATE_PARAMS, '');
+    }
+
+    /**
+     * Validates the overrides of a streamer for the format of his alerts.
+     * @param overrides the overrides to validate
+     * @throws TemplateError if an override is not valid
+     */
+    static validateEmbedOverrides(overrides: EmbedOverrides): void {
+        if (overrides.color !== undefined && !/^#[0-9a-fA-F]{6}$/.test(overrides.color)) {
+            throw new TemplateError(`Invalid color '${overrides.color}', it must be like '#FF5733'`);
+        }
+        if (overrides.imageSize !== undefined && !/^(\d+x\d+|none)$/.test(overrides.imageSize)) {
+            throw new TemplateError(`Invalid image size '${overrides.imageSize}', it must be like '440x248' or 'none'`);
+        }
+        if (overrides.title !== undefined) new Template(overrides.title, StreamManager.STREAM_TEMPLATE_PARAMS);
+        if (overrides.description !== undefined) new Template(overrides.description, StreamManager.STREAM_TEMPLATE_PARAMS);
+    }
+
+    /**
+     * Finds the tracked category in the config that matches the given Twitch category, an entry matches if
+     * its game_id is equal to the category id or if its name is equal to the category name.
+     * @param categoryId the id of the Twitch category
+     * @param categoryName the name of the Twitch category
+     * @private
+     */
+    private findTrackedCategory(categoryId: string, categoryName: string): string | undefined {
+        const categories = this._cfg.getSection('categories');
+        for (const key of categories) {
+            if (!key) continue;
+            const sect = categories.getSection(key);
+            if (sect.has('game_id')) {
+                if (sect.getString('game_id') === categoryId) return key;
+            } else if (sect.getString('name').toLowerCase() === categoryName.toLowerCase()) {
+                return key;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Gets a string value for the given tracked category, falling back to the global value if the
+     * category does not override it.
+     * @param categoryKey the key of the tracked category in the config
+     * @param path the path of the value inside the category section
+     * @param globalPath the path of the global value (default: same as path)
+     * @private
+     */
+    private getCategoryString(categoryKey: string, path: string[], globalPath: string[] = path): string {
+        // The category may have been removed by a reload of the config while a stream was tracked in it
+        const categories = this._cfg.getSection('categories');
+        if (categories.has([categoryKey, ...path])) return categories.getStringIn([categoryKey, ...path]);
+        return this._cfg.getStringIn(globalPath);
     }
 
     /**
-     * Fetches the channel where to send alerts from the id specified in the config, if an error occurs returns undefined.
+     * Gets an optional string value for the given tracked category, falling back to the global value if the
+     * category does not override it.
+     * @param categoryKey the key of the tracked category in the config
+     * @param path the path of the value inside the category section
+     * @param globalPath the path of the global value (default: same as path)
+     * @return the value, or undefined if it is set neither in the category nor globally
      * @private
      */
-    private async fetchNotificationChannel(): Promise<TextChannel | undefined> {
+    private getOptionalCategoryString(categoryKey: string, path: string[], globalPath: string[] = path): string | undefined {
+        const categories = this._cfg.getSection('categories');
+        if (categories.has([categoryKey, ...path])) return categories.getStringIn([categoryKey, ...path]);
+        if (this._cfg.has(globalPath)) return this._cfg.getStringIn(globalPath);
+        return undefined;
+    }
+
+    /**
+     * Fetches the channel where to send alerts from the given id, if an error occurs returns undefined. Channels of
+     * other guilds are refused, so that the alerts of a guild can't be sent to another one.
+     * @param channelId the id of the channel
+     * @private
+     */
+    private async fetchNotificationChannel(channelId: Snowflake): Promise<TextChannel | undefined> {
         try {
-            const channel = await this._client.channels.fetch(this._cfg.getString('notification_channel'));
+            const channel = await this._client.channels.fetch(channelId);
             if (!channel || !(channel instanceof TextChannel)) {
-                logger.error('Invalid id for "notification_channel", check config');
+                logger.error(`Invalid notification channel id '${channelId}', check config`);
+                return undefined;
+            }
+            if (channel.guildId !== this._guildId) {
+                logger.error(`Notification channel '${channelId}' is not in guild ${this._guildId}, check config`);
                 return undefined;
             }
             return channel;
@@ -57,54 +297,297 @@ export class StreamManager {
         }
     }
 
+    /**
+     * Gets the values of the parameters available in the templates of the alerts for the given stream.
+     * @param streamInfo the stream info returned by the Twitch API
+     * @private
+     */
+    private async getStreamTemplateParams(streamInfo: JsonPayload): Promise<Record<string, string | undefined>> {
+        const broadcasterId = streamInfo['user_id'] as string;
+        if (this._avatars[broadcasterId] === undefined) {
+            const users = await this._twitchApi.getUsers([broadcasterId]);
+            const avatar = users?.[0]?.['profile_image_url'];
+            if (typeof avatar === 'string') this._avatars[broadcasterId] = avatar;
+        }
+        const member = await this.fetchDiscordUser(broadcasterId);
+        const startedAt = Date.parse(streamInfo['started_at'] as string);
+        const tags = streamInfo['tags'] as unknown as string[] | null | undefined;
+        return {
+            'name': streamInfo['user_name'] as string,
+            'login': streamInfo['user_login'] as string,
+            'url': `https://www.twitch.tv/${streamInfo['user_login']}`,
+            'streamTitle': streamInfo['title'] as string,
+            'category': streamInfo['game_name'] as string,
+            'categoryId': streamInfo['game_id'] as string,
+            'viewers': `${streamInfo['viewer_count']}`,
+            'tags': tags?.join(', '),
+            'language': streamInfo['language'] as string,
+            'startedAt': `<t:${Math.floor(startedAt / 1000)}:f>`,
+            'uptime': formatDuration(Date.now() - startedAt),
+            'mature': streamInfo['is_mature'] ? 'yes' : undefined,
+            'avatar': this._avatars[broadcasterId],
+            'member': member?.toString(),
+            'memberName': member?.displayName,
+        };
+    }
+
+    /**
+     * Renders a template of the embed of the given tracked category, falling back to the global template if the
+     * category does not override it.
+     * @param categoryKey the key of the tracked category in the config
+     * @param path the path of the template inside the embed section
+     * @param params the values of the template parameters
+     * @return the rendered template, or undefined if it is not set or if it is empty once rendered
+     * @private
+     */
+    private renderEmbedTemplate(categoryKey: string, path: string[], params: Record<string, string | undefined>): string | undefined {
+        const source = this.getOptionalCategoryString(categoryKey, ['embed', ...path]);
+        if (source === undefined) return undefined;
+        const result = format(source, params);
+        return result.length > 0 ? result : undefined;
+    }
+
+    /**
+     * Gets the templates of the fields of the embed of the given tracked category.
+     * @param categoryKey the key of the tracked category in the config
+     * @private
+     */
+    private getEmbedFields(categoryKey: string): EmbedFieldTemplate[] {
+        const categorySect = this._cfg.getSection('categories').getSection(categoryKey);
+        let fields;
+        if (categorySect.has(['embed', 'fields'])) fields = categorySect.getSectionList(['embed', 'fields']);
+        else if (this._cfg.has(['embed', 'fields'])) fields = this._cfg.getSectionList(['embed', 'fields']);
+        else return StreamManager.DEFAULT_EMBED_FIELDS;
+
+        return fields.map(field => ({
+            name: field.getString('name'),
+            value: field.getString('value'),
+            inline: field.has('inline') && field.getBoolean('inline'),
+        }));
+    }
+
     /**
      * Creates an embed for a stream online alert.
-     * @param broadcasterLogin the username of the broadcaster
-     * @param broadcasterName the display name of the broadcaster
-     * @param title the title of the stream
-     * @param thumbnailUrl the url for the thumbnail of the stream
+     * @param categoryKey the key of the tracked category of the stream
+     * @param streamInfo the stream info returned by the Twitch API
+     * @param params the values of the template parameters for the stream
+     * @param overrides the overrides of the streamer for the format of the embed (default: the ones saved for him)
      * @private
      */
-    private createStreamEmbed(broadcasterLogin: string, broadcasterName: string, title: string, thumbnailUrl: string): MessageEmbed {
-        const sect = this._cfg.getSection('embed');
-        return new MessageEmbed()
-            .setColor(sect.getString('color') as ColorResolvable)
-            .setTitle(format(sect.getString('title'), { 'name': broadcasterName }))
-            .setDescription(format(sect.getString('description'), { 'streamTitle': title }))
-            .setURL(`https://www.twitch.tv/${broadcasterLogin}`)
-            .setImage(thumbnailUrl)
-            .setTimestamp();
+    private createStreamEmbed(categoryKey: string, streamInfo: JsonPayload, params: Record<string, string | undefined>,
+        overrides = this._streamers.getById(this._guildId, streamInfo['user_id'] as string)?.embed): MessageEmbed {
+        const render = (path: string[]) => this.renderEmbedTemplate(categoryKey, path, params);
+        const embed = new MessageEmbed()
+            .setColor((overrides?.color ?? this.getCategoryString(categoryKey, ['embed', 'color'])) as ColorResolvable)
+            .setURL(`https://www.twitch.tv/${streamInfo['user_login']}`)
+            .setTimestamp(Date.parse(streamInfo['started_at'] as string));
+
+        const title = overrides?.title !== undefined ? format(overrides.title, params) : render(['title']);
+        if (title) embed.setTitle(title);
+        const description = overrides?.description !== undefined ? format(overrides.description, params) : render(['description']);
+        if (description) embed.setDescription(description);
+        const authorName = render(['author', 'name']);
+        if (authorName) embed.setAuthor({ name: authorName, iconURL: render(['author', 'icon']), url: render(['author', 'url']) });
+        const footerText = render(['footer', 'text']);
+        if (footerText) embed.setFooter({ text: footerText, iconURL: render(['footer', 'icon']) });
+        const thumbnail = render(['thumbnail']);
+        if (thumbnail) embed.setThumbnail(thumbnail);
+
+        for (const field of this.getEmbedFields(categoryKey)) {
+            const name = format(field.name, params);
+            const value = format(field.value, params);
+            if (name && value) embed.addField(name, value, field.inline);
+        }
+
+        const imageSize = overrides?.imageSize ?? this.getOptionalCategoryString(categoryKey, ['embed', 'image_size']) ?? '440x248';
+        if (imageSize !== 'none') {
+            const [width, height] = imageSize.split('x');
+            // Discord caches images by url, the query makes it fetch the updated thumbnail every time the alert is edited
+            embed.setImage((streamInfo['thumbnail_url'] as string)
+                .replace('{width}', width)
+                .replace('{height}', height) + `?t=${Date.now()}`);
+        }
+        return embed;
+    }
+
+    /**
+     * Creates a preview of the alert of a streamer, using sample stream info if he is not live.
+     * @param streamer the streamer to create the preview for
+     * @param overrides the overrides for the format of the embed to preview
+     */
+    async createPreviewEmbed(streamer: Streamer, overrides?: EmbedOverrides): Promise<MessageEmbed> {
+        const stream = this._onlineStreams[streamer.twitchId];
+        const categoryKey = stream?.trackedCategory ?? [...this._cfg.getSection('categories')][0];
+        const streamInfo = await this._twitchApi.getStreamInfo(streamer.twitchId) ?? {
+            'user_id': streamer.twitchId,
+            'user_login': streamer.login,
+            'user_name': streamer.displayName,
+            'game_id': '',
+            'game_name': this._cfg.getSection('categories').getSection(categoryKey).has('name')
+                ? this._cfg.getStringIn(['categories', categoryKey, 'name']) : '',
+            'title': 'Stream title',
+            'viewer_count': 0,
+            'started_at': new Date().toISOString(),
+            'language': 'en',
+            'is_mature': false,
+            'thumbnail_url': `https://static-cdn.jtvnw.net/previews-ttv/live_user_${streamer.login}-{width}x{height}.jpg`,
+        };
+        const params = await this.getStreamTemplateParams(streamInfo);
+        return this.createStreamEmbed(categoryKey, streamInfo, params, overrides);
+    }
+
+    /**
+     * Creates the content of a stream online alert from the template of the given tracked category, it can mention
+     * the ping role of the streamer, or of the category if he doesn't have one, and the role of his followers.
+     * @param categoryKey the key of the tracked category of the stream
+     * @param streamInfo the stream info returned by the Twitch API
+     * @param params the values of the template parameters for the stream
+     * @return the content, or undefined if no template is set, and the ids of the roles it mentions
+     * @private
+     */
+    private createAlertContent(categoryKey: string, streamInfo: JsonPayload, params: Record<string, string | undefined>): { content?: string, roles: Snowflake[] } {
+        const template = this.getOptionalCategoryString(categoryKey, ['alert_content']);
+        if (template === undefined) return { roles: [] };
+
+        const streamer = this._streamers.getById(this._guildId, streamInfo['user_id'] as string);
+        const pingRoleId = streamer?.pingRoleId ?? this.getOptionalCategoryString(categoryKey, ['ping_role']);
+        const followerRoleId = streamer?.followerRoleId;
+        const content = format(template, {
+            ...params,
+            'pingRole': pingRoleId ? `<@&${pingRoleId}>` : undefined,
+            'followers': followerRoleId ? `<@&${followerRoleId}>` : undefined }).trim();
+        const roles: Snowflake[] = [];
+        if (pingRoleId && template.includes('pingRole')) roles.push(pingRoleId);
+        if (followerRoleId && template.includes('followers')) roles.push(followerRoleId);
+        return { content: content.length > 0 ? content : undefined, roles: roles };
     }
 
     /**
-     * Sends an embed containing stream info to the notification channel specified in the config.
-     * @param streamInfo
+     * Sends an embed containing stream info to the notification channel of the given tracked category.
+     * @param categoryKey the key of the tracked category of the stream
+     * @param streamInfo the stream info returned by the Twitch API
+     * @param mention if the message should contain the content with the role mentions (default: true)
+     * @return the ids of the sent message and of its channel, or undefined if the message could not be sent
      * @private
      */
-    private async sendStreamEmbed(streamInfo: JsonPayload): Promise<string | undefined> {
-        const broadcasterLogin = streamInfo['user_login'] as string;
-        const broadcasterName = streamInfo['user_name'] as string;
-        const title = streamInfo['title'] as string;
-        const thumbnailUrl = (streamInfo['thumbnail_url'] as string)
-            .replace('{width}', '440')
-            .replace('{height}', '248');
-        const embed = this.createStreamEmbed(broadcasterLogin, broadcasterName, title, thumbnailUrl);
-        const channel = await this.fetchNotificationChannel();
+    private async sendStreamEmbed(categoryKey: string, streamInfo: JsonPayload, mention = true): Promise<{ messageId: Snowflake, channelId: Snowflake } | undefined> {
+        const params = await this.getStreamTemplateParams(streamInfo);
+        const embed = this.createStreamEmbed(categoryKey, streamInfo, params);
+        const channel = await this.fetchNotificationChannel(this.getCategoryString(categoryKey, ['notification_channel']));
         if (!channel) return undefined;
-        const msg = await channel.send({ embeds: [embed] });
-        await this._cache.set(msg.id, broadcasterLogin);
-        return msg.id;
+        const { content, roles } = mention ? this.createAlertContent(categoryKey, streamInfo, params) : { content: undefined, roles: [] };
+        // Only the roles of the template can be mentioned, so that stream titles can't ping anyone
+        const msg = await channel.send({ content: content, embeds: [embed], allowedMentions: { parse: [], roles: roles } });
+        return { messageId: msg.id, channelId: channel.id };
+    }
+
+    /**
+     * Creates an embed summarizing a stream that has ended.
+     * @param stream the stream that has ended
+     * @param endedAt the time when the stream has ended, in milliseconds, undefined if it is not known
+     * @private
+     */
+    private createSummaryEmbed(stream: StreamEvent, endedAt?: number): MessageEmbed {
+        const sect = this._cfg.getSection('summary_embed');
+        const embed = new MessageEmbed()
+            .setColor(sect.getString('color') as ColorResolvable)
+            .setTitle(format(sect.getString('title'), {
+                'name': stream.broadcasterName,
+                'login': stream.broadcasterLogin,
+                'url': `https://www.twitch.tv/${stream.broadcasterLogin}`,
+                'streamTitle': stream.title,
+                'category': stream.category,
+                'categories': stream.categories.join(', '),
+                'duration': endedAt !== undefined ? formatDuration(endedAt - Date.parse(stream.startedAt)) : undefined,
+                'peakViewers': `${stream.peakViewers}`,
+                'raidTarget': stream.raidTarget }))
+            .setDescription(stream.title)
+            .setURL(`https://www.twitch.tv/${stream.broadcasterLogin}`);
+        if (endedAt !== undefined) {
+            embed.addField('Duration', formatDuration(endedAt - Date.parse(stream.startedAt)), true)
+                .setTimestamp(endedAt);
+        }
+        embed.addField('Peak viewers', `${stream.peakViewers}`, true)
+            .addField('Categories', stream.categories.join(', '), true);
+        if (stream.raidTarget) {
+            embed.addField('Raided', `https://www.twitch.tv/${stream.raidTarget}`, true);
+        }
+        return embed;
+    }
+
+    /**
+     * Edits the alert of the given stream with the given stream info, if the stream has an alert.
+     * @param stream the online stream
+     * @param streamInfo the stream info returned by the Twitch API
+     * @private
+     */
+    private async editAlert(stream: StreamEvent, streamInfo: JsonPayload): Promise<void> {
+        if (!stream.trackedCategory || !stream.messageId || !stream.channelId) return;
+        const channel = await this.fetchNotificationChannel(stream.channelId);
+        if (!channel) return;
+        try {
+            const params = await this.getStreamTemplateParams(streamInfo);
+            await channel.messages.edit(stream.messageId, { embeds: [this.createStreamEmbed(stream.trackedCategory, streamInfo, params)] });
+        } catch (e) {
+            logger.warn(`Could not edit alert for ${stream.broadcasterLogin}: ${e}`);
+        }
+    }
+
+    /**
+     * Samples the viewer count of an online stream, for its summary and its statistics.
+     * @param stream the online stream
+     * @param streamInfo the stream info returned by the Twitch API
+     * @private
+     */
+    private sampleViewers(stream: StreamEvent, streamInfo: JsonPayload): void {
+        const viewers = streamInfo['viewer_count'] as number;
+        stream.peakViewers = Math.max(stream.peakViewers, viewers);
+        stream.viewerTotal = (stream.viewerTotal ?? 0) + viewers;
+        stream.viewerSamples = (stream.viewerSamples ?? 0) + 1;
+        stream.lastSeenAt = Date.now();
+    }
+
+    /**
+     * Refreshes viewer count, uptime and thumbnail of all sent alerts, fetching the info of all streams at once. The
+     * viewers of the streams without an alert are sampled too, so that they are recorded in the history.
+     * @private
+     */
+    private async refreshAlerts(): Promise<void> {
+        const broadcasterIds = Object.keys(this._onlineStreams)
+            .filter(id => this._onlineStreams[id].offlineAt === undefined);
+        if (broadcasterIds.length === 0) return;
+
+        const liveStreams = await this._twitchApi.getStreamsInfo(broadcasterIds);
+        if (!liveStreams) return;
+        // Streams that are no longer live will be handled by the stream.offline notification
+        await Promise.all(Object.keys(liveStreams).filter(id => broadcasterIds.includes(id)).map(broadcasterId =>
+            this.queueEvent(broadcasterId, 'alert refresh', () => this.refreshAlert(broadcasterId, liveStreams[broadcasterId]))));
+    }
+
+    /**
+     * Refreshes the alert of a stream with the info fetched by refreshAlerts. The events handled while the info was
+     * being fetched may have ended or replaced the stream, so its state is checked again.
+     * @param broadcasterId the id of the broadcaster
+     * @param streamInfo the stream info returned by the Twitch API
+     * @private
+     */
+    private async refreshAlert(broadcasterId: string, streamInfo: JsonPayload): Promise<void> {
+        const stream = this._onlineStreams[broadcasterId];
+        if (!stream || stream.offlineAt !== undefined || stream.startedAt !== streamInfo['started_at']) return;
+        this.sampleViewers(stream, streamInfo);
+        if (stream.messageId !== undefined) await this.editAlert(stream, streamInfo);
+        await this.saveStream(broadcasterId);
     }
 
     /**
      * Deletes an alert message.
-     * @param broadcasterId the id of the broadcaster for this alert, can be undefined
      * @param messageId the id of the message
-     * @param save if the deletion should be saved to cache (default: true)
+     * @param channelId the id of the channel where the message has been sent
+     * @param broadcasterId the id of the broadcaster for this alert, can be undefined
      * @private
      */
-    private async deleteMessage(messageId: string, broadcasterId?: string, save = true): Promise<void> {
-        const channel = await this.fetchNotificationChannel();
+    private async deleteMessage(messageId: Snowflake, channelId: Snowflake, broadcasterId?: string): Promise<void> {
+        const channel = await this.fetchNotificationChannel(channelId);
         if (channel) {
             try {
                 await channel.messages.delete(messageId);
@@ -112,23 +595,25 @@ export class StreamManager {
                 logger.debug('Trying to delete a message that does not exists');
             }
         }
-        if (save) {
-            if (broadcasterId && this._onlineStreams[broadcasterId]) this._onlineStreams[broadcasterId].messageId = undefined;
-            await this._cache.delete(messageId);
+        const stream = broadcasterId ? this._onlineStreams[broadcasterId] : undefined;
+        if (stream) {
+            stream.messageId = undefined;
+            stream.channelId = undefined;
         }
     }
 
     /**
-     * Fetches the guild member with the id specified in the config for this broadcasterLogin.
-     * @param broadcasterLogin the login of the broadcaster
+     * Fetches the guild member linked to the streamer with this broadcasterId, external streamers have none.
+     * @param broadcasterId the id of the broadcaster
      * @private
      */
-    private async fetchDiscordUser(broadcasterLogin: string): Promise<GuildMember | undefined> {
+    private async fetchDiscordUser(broadcasterId: string): Promise<GuildMember | undefined> {
+        const streamer = this._streamers.getById(this._guildId, broadcasterId);
+        if (!streamer || !streamer.discordUserId) return undefined;
         try {
-            const guild = this._client.guilds.cache.first();
+            const guild = this._client.guilds.cache.get(this._guildId);
             if (!guild) return undefined;
-            return await guild.members.fetch(
-                this._cfg.getStringIn(['streams', broadcasterLogin, 'discord_user_id']));
+            return await guild.members.fetch(streamer.discordUserId);
         } catch (e) {
             logger.error(`Error while fetching user: ${e}`);
         }
@@ -136,122 +621,723 @@ export class StreamManager {
     }
 
     /**
-     * Grants the streamer role in the discord guild to the broadcaster.
-     * @param broadcasterLogin the login of the broadcaster
+     * Sends the announcement for a raid made by a tracked streamer to the channel specified in the config. Tracked
+     * streamers are mentioned, other channels are referred to by their display name.
+     * @param fromId the id of the raiding broadcaster
+     * @param fromName the display name of the raiding broadcaster
+     * @param toId the id of the raided broadcaster
+     * @param toLogin the login of the raided broadcaster
+     * @param toName the display name of the raided broadcaster
+     * @param viewers the number of viewers that joined the raid
+     * @private
+     */
+    private async sendRaidAnnouncement(fromId: string, fromName: string, toId: string, toLogin: string, toName: string, viewers: number): Promise<void> {
+        const sect = this._cfg.getSection('raid_announcement');
+        const channel = await this.fetchNotificationChannel(sect.getString('channel'));
+        if (!channel) return;
+
+        const fromMember = await this.fetchDiscordUser(fromId);
+        const toMember = await this.fetchDiscordUser(toId);
+        const mentioned = [fromMember, toMember].filter(member => member !== undefined) as GuildMember[];
+
+        const content = format(sect.getString('message'), {
+            'from': fromMember ? fromMember.toString() : fromName,
+            'to': toMember ? toMember.toString() : toName,
+            'viewers': `${viewers}`,
+            'url': `https://www.twitch.tv/${toLogin}` });
+        await channel.send({ content: content, allowedMentions: { users: mentioned.map(member => member.id) } });
+    }
+
+    /**
+     * Sends a message to the admin log channel, if it is set in the config.
+     * @param content the content of the message
+     */
+    async sendAdminLog(content: string): Promise<void> {
+        if (!this._cfg.has('admin_log_channel')) return;
+        const channel = await this.fetchNotificationChannel(this._cfg.getString('admin_log_channel'));
+        if (!channel) return;
+        await channel.send({ content: content, allowedMentions: { parse: [] } })
+            .catch(e => logger.error(`Error while sending admin log: ${e}`));
+    }
+
+    /**
+     * Grants the given online role in the discord guild to the broadcaster.
+     * @param broadcasterId the id of the broadcaster
+     * @param roleId the id of the role to grant
      * @private
      */
-    private async grantStreamerRole(broadcasterLogin: string) {
-        const member = await this.fetchDiscordUser(broadcasterLogin);
+    private async grantStreamerRole(broadcasterId: string, roleId: Snowflake) {
+        const member = await this.fetchDiscordUser(broadcasterId);
         if (!member) return;
-        member.roles.add(this._cfg.getString('streamer_online_role'))
+        member.roles.add(roleId)
             .catch(logger.error);
     }
 
     /**
-     * Removes the streamer role in the discord guild from the broadcaster.
-     * @param broadcasterLogin the login of the broadcaster
+     * Removes the given online role in the discord guild from the broadcaster.
+     * @param broadcasterId the id of the broadcaster
+     * @param roleId the id of the role to remove
      * @private
      */
-    private async removeStreamerRole(broadcasterLogin: string) {
-        const member = await this.fetchDiscordUser(broadcasterLogin);
+    private async removeStreamerRole(broadcasterId: string, roleId: Snowflake) {
+        const member = await this.fetchDiscordUser(broadcasterId);
         if (!member) return;
-        member.roles.remove(this._cfg.getString('streamer_online_role'))
+        member.roles.remove(roleId)
             .catch(logger.error);
     }
 
     /**
-     * Deletes all messages which id is present in cache and removes the roles from the discord guild member.
+     * Saves the state of the online stream of the given broadcaster to the database.
+     * @param broadcasterId the id of the broadcaster
      * @private
      */
-    private async cleanupMessagesAndRoles(): Promise<void> {
-        const db = new Database(this._dataFilePath);
-        const rows = db.prepare('SELECT \'key\',\'value\' from keyv WHERE \'key\' LIKE \'streamManager:%\'').all();
-        logger.debug(JSON.stringify(rows));
-        rows.forEach(row => {
-            this.deleteMessage(row.key, undefined, false);
-            const login = JSON.parse(row.value)['value'];
-            this.removeStreamerRole(login);
-        });
-        await this._cache.clear();
+    private async saveStream(broadcasterId: string): Promise<void> {
+        const stream = this._onlineStreams[broadcasterId];
+        if (stream) await this._cache.set(broadcasterId, stream);
     }
 
     /**
-     * Handles a stream.online notification, sending an alert in the channel specified in the config if the stream
-     * is in the category specified in the config.
-     * @param broadcasterId the id of the broadcaster that started streaming
-     * @param broadcasterLogin the login of the broadcaster that started streaming
-     * @param broadcasterName the display name of the broadcaster that started streaming
+     * Saves an online stream that has ended to the history of the guild. Streams whose end is not known, because
+     * they ended while the bot was offline before their viewers were sampled, are not saved.
+     * @param broadcasterId the id of the broadcaster
+     * @param stream the stream that has ended
+     * @param endedAt the time when the stream has ended, in milliseconds
+     * @private
      */
-    async onStreamOnline(broadcasterId: string, broadcasterLogin: string, broadcasterName: string): Promise<void> {
-        logger.debug(`Stream online for ${broadcasterId}`);
+    private recordSession(broadcasterId: string, stream: StreamEvent, endedAt = stream.offlineAt ?? stream.lastSeenAt): void {
+        if (endedAt === undefined) {
+            logger.debug(`End of the stream of ${stream.broadcasterLogin} is not known, not saving it to the history`);
+            return;
+        }
+        const startedAt = Date.parse(stream.startedAt);
+        try {
+            this._sessions.add({
+                guildId: this._guildId,
+                twitchId: broadcasterId,
+                login: stream.broadcasterLogin,
+                displayName: stream.broadcasterName,
+                startedAt: startedAt,
+                endedAt: endedAt,
+                peakViewers: stream.peakViewers,
+                averageViewers: stream.viewerSamples ? Math.round((stream.viewerTotal ?? 0) / stream.viewerSamples) : undefined,
+                raidTarget: stream.raidTarget,
+                categories: stream.categoryChanges ?? [{ category: stream.category, at: startedAt }],
+                titles: stream.titleChanges ?? [{ title: stream.title, at: startedAt }],
+            });
+        } catch (e) {
+            logger.error(`Could not save the stream of ${stream.broadcasterLogin} to the history: ${e}`);
+        }
+    }
 
-        if (this._onlineStreams[broadcasterId] !== undefined) {
-            logger.warn(`Received online notification for ${broadcasterName} stream that was already cached as online`);
-            const msgID = this._onlineStreams[broadcasterId].messageId;
-            if (msgID !== undefined) {
-                await this.deleteMessage(msgID, broadcasterId);
+    /**
+     * Removes the online stream of the given broadcaster from memory and from the database.
+     * @param broadcasterId the id of the broadcaster
+     * @private
+     */
+    private async deleteStream(broadcasterId: string): Promise<void> {
+        delete this._onlineStreams[broadcasterId];
+        await this._cache.delete(broadcasterId);
+    }
+
+    /**
+     * Loads all online streams saved in the database, mapped by broadcaster id.
+     * @private
+     */
+    private loadSavedStreams(): Record<string, StreamEvent> {
+        const saved: Record<string, StreamEvent> = {};
+        try {
+            const db = new Database(this._dataFilePath);
+            const rows = db.prepare('SELECT key, value FROM keyv WHERE key LIKE ?').all(`${this._namespace}:%`) as { key: string, value: string }[];
+            db.close();
+            for (const row of rows) {
+                saved[row.key.substring(this._namespace.length + 1)] = JSON.parse(row.value)['value'];
+            }
+        } catch (e) {
+            logger.debug(`No saved streams found: ${e}`);
+        }
+        return saved;
+    }
+
+    /**
+     * Restores the online streams saved in the database, checking them against the Twitch API. Alerts and roles for
+     * streams that are still live are kept, the ones for streams that have ended are removed, and alerts are sent
+     * for tracked streamers that went live while the bot was offline. Each broadcaster is restored in the event queue,
+     * so that the events received in the meantime are handled after it.
+     * @private
+     */
+    private async restoreOnlineStreams(): Promise<void> {
+        const saved = this.loadSavedStreams();
+        const broadcasterIds = new Set(Object.keys(saved));
+        this._streamers.getEnabled(this._guildId).forEach(streamer => broadcasterIds.add(streamer.twitchId));
+
+        const liveStreams = await this._twitchApi.getStreamsInfo([...broadcasterIds]);
+        if (!liveStreams) {
+            logger.error('Could not check saved streams against the Twitch API, keeping them as they are');
+            for (const broadcasterId in saved) this._onlineStreams[broadcasterId] ??= saved[broadcasterId];
+            return;
+        }
+
+        await Promise.all([...broadcasterIds].map(broadcasterId => this.queueEvent(broadcasterId, 'stream restore',
+            () => this.restoreOnlineStream(broadcasterId, saved[broadcasterId], liveStreams[broadcasterId]))));
+    }
+
+    /**
+     * Restores the saved online stream of a broadcaster, or starts his stream if he went live while the bot was
+     * offline. If an event received since the bot has started has already created his stream, only the outdated
+     * alert of the saved stream is deleted.
+     * @param broadcasterId the id of the broadcaster
+     * @param stream the saved stream, undefined if the broadcaster was offline
+     * @param streamInfo the stream info returned by the Twitch API, undefined if the broadcaster is offline
+     * @private
+     */
+    private async restoreOnlineStream(broadcasterId: string, stream?: StreamEvent, streamInfo?: JsonPayload): Promise<void> {
+        if (stream?.lastAlertAt !== undefined) {
+            this._lastAlerts[broadcasterId] = Math.max(this._lastAlerts[broadcasterId] ?? 0, stream.lastAlertAt);
+        }
+        const current = this._onlineStreams[broadcasterId];
+        if (current !== undefined) {
+            if (stream?.messageId !== undefined && stream.channelId !== undefined && stream.messageId !== current.messageId) {
+                await this.deleteMessage(stream.messageId, stream.channelId);
+            }
+            return;
+        }
+        if (stream === undefined) {
+            if (!streamInfo) return;
+            logger.info(`${streamInfo['user_name']} went live while the bot was offline`);
+            await this.startStream(broadcasterId, streamInfo);
+            return;
+        }
+
+        const gracePeriod = this.getMinutes('offline_grace_period');
+        this._onlineStreams[broadcasterId] = stream;
+        if (streamInfo && (stream.offlineAt !== undefined || streamInfo['started_at'] === stream.startedAt)) {
+            logger.debug(`Restored online stream for ${stream.broadcasterLogin}`);
+            delete stream.offlineAt;
+            await this.updateCategory(broadcasterId, stream,
+                streamInfo['game_id'] as string, streamInfo['game_name'] as string);
+            await this.saveStream(broadcasterId);
+        } else if (stream.offlineAt !== undefined && stream.offlineAt + gracePeriod > Date.now()) {
+            logger.debug(`Restored stream in offline grace period for ${stream.broadcasterLogin}`);
+            this.scheduleOfflineEnd(broadcasterId, stream.offlineAt + gracePeriod - Date.now());
+        } else {
+            logger.debug(`Removing stale stream for ${stream.broadcasterLogin}`);
+            this.recordSession(broadcasterId, stream);
+            await this.endAlert(broadcasterId, stream, stream.offlineAt);
+            await this.deleteStream(broadcasterId);
+        }
+        if (streamInfo && this._onlineStreams[broadcasterId] === undefined) {
+            // The saved stream has ended and a new one has started while the bot was offline
+            logger.info(`${streamInfo['user_name']} went live while the bot was offline`);
+            await this.startStream(broadcasterId, streamInfo);
+        }
+    }
+
+    /**
+     * Gets a duration from the config, expressed in minutes.
+     * @param key the key of the duration
+     * @return the duration in milliseconds, 0 if it is not set
+     * @private
+     */
+    private getMinutes(key: string): number {
+        return this._cfg.has(key) ? this._cfg.getNumber(key) * 60 * 1000 : 0;
+    }
+
+    /**
+     * Ends the stream of the broadcaster after the given delay, unless it comes back online before.
+     * @param broadcasterId the id of the broadcaster
+     * @param delay the time to wait, in milliseconds
+     * @private
+     */
+    private scheduleOfflineEnd(broadcasterId: string, delay: number): void {
+        clearTimeout(this._offlineTimers[broadcasterId]);
+        this._offlineTimers[broadcasterId] = setTimeout(() => {
+            delete this._offlineTimers[broadcasterId];
+            this.queueEvent(broadcasterId, 'end of offline grace period', () => this.endOfflineStream(broadcasterId))
+                .then(() => logger.debug(`Finished handling of end of offline grace period for ${broadcasterId}`));
+        }, delay);
+    }
+
+    /**
+     * Ends the alert for a stream that went offline, cancelling the grace period if it is running.
+     * @param broadcasterId the id of the broadcaster
+     * @private
+     */
+    private async endOfflineStream(broadcasterId: string): Promise<void> {
+        clearTimeout(this._offlineTimers[broadcasterId]);
+        delete this._offlineTimers[broadcasterId];
+
+        const stream = this._onlineStreams[broadcasterId];
+        if (stream === undefined) return;
+        const endedAt = stream.offlineAt ?? Date.now();
+        this.recordSession(broadcasterId, stream, endedAt);
+        await this.endAlert(broadcasterId, stream, endedAt);
+        await this.deleteStream(broadcasterId);
+    }
+
+    /**
+     * Sends the alert for the given stream in the channel of its tracked category and grants the online role,
+     * together with the role of the streamer if he has one. The alert is not sent if the last one for the same
+     * broadcaster has been sent within the cooldown set in the config.
+     * @param broadcasterId the id of the broadcaster
+     * @param stream the online stream, must have a tracked category
+     * @param streamInfo the stream info returned by the Twitch API
+     * @private
+     */
+    private async sendAlert(broadcasterId: string, stream: StreamEvent, streamInfo: JsonPayload): Promise<void> {
+        if (!stream.trackedCategory) return;
+        const cooldown = this.getMinutes('alert_cooldown');
+        const lastAlert = this._lastAlerts[broadcasterId];
+        if (cooldown > 0 && lastAlert !== undefined && Date.now() - lastAlert < cooldown) {
+            logger.info(`Not sending alert for ${stream.broadcasterLogin}, the last one was sent ${formatDuration(Date.now() - lastAlert)} ago`);
+        } else {
+            const sent = await this.sendStreamEmbed(stream.trackedCategory, streamInfo);
+            stream.messageId = sent?.messageId;
+            stream.channelId = sent?.channelId;
+            if (sent) this._lastAlerts[broadcasterId] = Date.now();
+        }
+        stream.lastAlertAt = this._lastAlerts[broadcasterId];
+        this.grantStreamerRole(broadcasterId,
+            this.getCategoryString(stream.trackedCategory, ['online_role'], ['streamer_online_role'])).then();
+        const streamerRoleId = this._streamers.getById(this._guildId, broadcasterId)?.roleId;
+        if (streamerRoleId) this.grantStreamerRole(broadcasterId, streamerRoleId).then();
+    }
+
+    /**
+     * Deletes the alert for the given stream, if present, and removes the online role.
+     * @param broadcasterId the id of the broadcaster
+     * @param stream the online stream
+     * @private
+     */
+    private async removeAlert(broadcasterId: string, stream: StreamEvent): Promise<void> {
+        if (stream.messageId !== undefined && stream.channelId !== undefined) {
+            await this.deleteMessage(stream.messageId, stream.channelId, broadcasterId);
+        }
+        this.removeOnlineRole(broadcasterId, stream);
+    }
+
+    /**
+     * Removes the online role of the tracked category of the given stream, if any, and the role of the streamer
+     * from the broadcaster.
+     * @param broadcasterId the id of the broadcaster
+     * @param stream the online stream
+     * @private
+     */
+    private removeOnlineRole(broadcasterId: string, stream: StreamEvent): void {
+        if (stream.trackedCategory) {
+            this.removeStreamerRole(broadcasterId,
+                this.getCategoryString(stream.trackedCategory, ['online_role'], ['streamer_online_role'])).then();
+            const streamerRoleId = this._streamers.getById(this._guildId, broadcasterId)?.roleId;
+            if (streamerRoleId) this.removeStreamerRole(broadcasterId, streamerRoleId).then();
+        }
+    }
+
+    /**
+     * Handles the alert of a stream that has ended according to the 'on_offline' mode in the config: 'delete' removes
+     * it, 'edit' turns it into a summary of the stream and 'edit_and_archive' moves the summary to the archive channel.
+     * @param broadcasterId the id of the broadcaster
+     * @param stream the stream that has ended
+     * @param endedAt the time when the stream has ended, in milliseconds, undefined if it is not known
+     * @private
+     */
+    private async endAlert(broadcasterId: string, stream: StreamEvent, endedAt?: number): Promise<void> {
+        const mode = this._cfg.has('on_offline') ? this._cfg.getString('on_offline') : 'delete';
+        if (stream.messageId === undefined || stream.channelId === undefined || (mode !== 'edit' && mode !== 'edit_and_archive')) {
+            await this.removeAlert(broadcasterId, stream);
+            return;
+        }
+
+        const embed = this.createSummaryEmbed(stream, endedAt);
+        if (mode === 'edit_and_archive') {
+            const archiveChannel = await this.fetchNotificationChannel(this._cfg.getString('archive_channel'));
+            if (archiveChannel) {
+                await archiveChannel.send({ embeds: [embed] });
+                await this.deleteMessage(stream.messageId, stream.channelId, broadcasterId);
+            }
+        } else {
+            const channel = await this.fetchNotificationChannel(stream.channelId);
+            try {
+                await channel?.messages.edit(stream.messageId, { embeds: [embed] });
+            } catch (e) {
+                logger.warn(`Could not edit alert for ${stream.broadcasterLogin}: ${e}`);
             }
-            delete this._onlineStreams[broadcasterId];
         }
+        this.removeOnlineRole(broadcasterId, stream);
+    }
+
+    /**
+     * Moves the alert for the given stream to the channel of a different tracked category. If both categories
+     * share the same channel the message is edited in place, otherwise a new alert is sent before deleting the old one.
+     * @param broadcasterId the id of the broadcaster
+     * @param stream the online stream, must have an alert
+     * @param newCategory the key of the new tracked category
+     * @private
+     */
+    private async moveAlert(broadcasterId: string, stream: StreamEvent, newCategory: string): Promise<void> {
+        const oldCategory = stream.trackedCategory;
+        const oldMessageId = stream.messageId;
+        const oldChannelId = stream.channelId;
+        if (!oldCategory || !oldMessageId || !oldChannelId) return;
 
         const streamInfo = await this._twitchApi.getStreamInfo(broadcasterId);
         if (!streamInfo) return;
-        const category = streamInfo['game_name'] as string;
 
+        stream.trackedCategory = newCategory;
+        const newChannelId = this.getCategoryString(newCategory, ['notification_channel']);
+        const oldRoleId = this.getCategoryString(oldCategory, ['online_role'], ['streamer_online_role']);
+        const newRoleId = this.getCategoryString(newCategory, ['online_role'], ['streamer_online_role']);
+
+        if (newChannelId === oldChannelId) {
+            await this.editAlert(stream, streamInfo);
+        } else {
+            // The alert has been already sent, members must not be pinged again
+            const sent = await this.sendStreamEmbed(newCategory, streamInfo, false);
+            if (!sent) return;
+            await this.deleteMessage(oldMessageId, oldChannelId, broadcasterId);
+            stream.messageId = sent.messageId;
+            stream.channelId = sent.channelId;
+        }
+
+        if (oldRoleId !== newRoleId) {
+            await this.removeStreamerRole(broadcasterId, oldRoleId);
+            this.grantStreamerRole(broadcasterId, newRoleId).then();
+        }
+    }
+
+    /**
+     * Starts tracking the online stream described by the given stream info, sending an alert in the channel of its
+     * tracked category, if any.
+     * @param broadcasterId the id of the broadcaster
+     * @param streamInfo the stream info returned by the Twitch API
+     * @private
+     */
+    private async startStream(broadcasterId: string, streamInfo: JsonPayload): Promise<void> {
+        const category = streamInfo['game_name'] as string;
+        const startedAt = Date.parse(streamInfo['started_at'] as string);
         const stream: StreamEvent = {
-            'broadcasterName': broadcasterName,
+            'broadcasterLogin': streamInfo['user_login'] as string,
+            'broadcasterName': streamInfo['user_name'] as string,
             'category': category,
-            'messageId': undefined };
+            'title': streamInfo['title'] as string,
+            'trackedCategory': this.findTrackedCategory(streamInfo['game_id'] as string, category),
+            'messageId': undefined,
+            'startedAt': streamInfo['started_at'] as string,
+            'peakViewers': streamInfo['viewer_count'] as number,
+            'categories': [category],
+            'categoryChanges': [{ category: category, at: startedAt }],
+            'titleChanges': [{ title: streamInfo['title'] as string, at: startedAt }],
+            'lastAlertAt': this._lastAlerts[broadcasterId] };
+        this.sampleViewers(stream, streamInfo);
+        this._onlineStreams[broadcasterId] = stream;
 
-        if (category.toLowerCase() === this._cfg.getString('stream_category').toLowerCase()) {
-            stream.messageId = await this.sendStreamEmbed(streamInfo);
-            this.grantStreamerRole(broadcasterLogin).then();
+        if (stream.trackedCategory) {
+            await this.sendAlert(broadcasterId, stream, streamInfo);
         }
+        await this.saveStream(broadcasterId);
+    }
 
-        this._onlineStreams[broadcasterId] = stream;
+    /**
+     * Updates the category of an online stream, removing the alert if the category is no longer tracked,
+     * moving it if the stream switched to a different tracked category or sending an alert if it has just
+     * changed to a tracked one.
+     * @param broadcasterId the id of the broadcaster
+     * @param stream the online stream
+     * @param categoryId the id of the new category
+     * @param category the name of the new category
+     * @private
+     */
+    private async updateCategory(broadcasterId: string, stream: StreamEvent, categoryId: string, category: string): Promise<void> {
+        if (stream.category !== category) stream.categoryChanges?.push({ category: category, at: Date.now() });
+        stream.category = category;
+        if (!stream.categories.includes(category)) stream.categories.push(category);
+        const trackedCategory = this.findTrackedCategory(categoryId, category);
+        if (trackedCategory === stream.trackedCategory) return;
+
+        if (stream.trackedCategory !== undefined && trackedCategory !== undefined && stream.messageId !== undefined) {
+            await this.moveAlert(broadcasterId, stream, trackedCategory);
+            return;
+        }
+
+        await this.removeAlert(broadcasterId, stream);
+        stream.trackedCategory = trackedCategory;
+        if (trackedCategory !== undefined) {
+            const streamInfo = await this._twitchApi.getStreamInfo(broadcasterId);
+            if (!streamInfo) return;
+            await this.sendAlert(broadcasterId, stream, streamInfo);
+        }
+    }
+
+    /**
+     * Updates the stored login and display name of the streamer if they differ from the ones received in a
+     * notification, as Twitch users can rename their account while keeping the same id.
+     * @param broadcasterId the id of the broadcaster
+     * @param broadcasterLogin the current login of the broadcaster
+     * @param broadcasterName the current display name of the broadcaster, if known
+     * @private
+     */
+    private syncLogin(broadcasterId: string, broadcasterLogin: string, broadcasterName?: string): void {
+        const streamer = this._streamers.getById(this._guildId, broadcasterId);
+        if (streamer && (streamer.login !== broadcasterLogin
+            || (broadcasterName !== undefined && streamer.displayName !== broadcasterName))) {
+            if (streamer.login !== broadcasterLogin) {
+                logger.info(`Streamer ${streamer.login} has been renamed to ${broadcasterLogin}`);
+            }
+            if (this._streamers.updateLogin(broadcasterId, broadcasterLogin, broadcasterName ?? streamer.displayName) > 0) {
+                logger.warn(`Released the login ${broadcasterLogin} from the streamers that had it before it was taken`);
+            }
+        }
+
+        const stream = this._onlineStreams[broadcasterId];
+        if (stream !== undefined) {
+            stream.broadcasterLogin = broadcasterLogin;
+            if (broadcasterName !== undefined) stream.broadcasterName = broadcasterName;
+        }
+    }
+
+    /**
+     * Applies the current config to an online stream: its tracked category is found again, as categories may have
+     * been added, removed or changed, and its alert is sent, moved, removed or edited accordingly.
+     * @param broadcasterId the id of the broadcaster
+     * @param streamInfo the stream info returned by the Twitch API
+     * @private
+     */
+    private async applyConfig(broadcasterId: string, streamInfo: JsonPayload): Promise<void> {
+        const stream = this._onlineStreams[broadcasterId];
+        // Streams in the offline grace period are ended with the new config
+        if (stream === undefined || stream.offlineAt !== undefined) return;
+
+        const trackedCategory = this.findTrackedCategory(streamInfo['game_id'] as string, streamInfo['game_name'] as string);
+        if (trackedCategory !== undefined && trackedCategory === stream.trackedCategory && stream.messageId !== undefined) {
+            // Edits the alert in place, or moves it if the channel of the category has changed
+            await this.moveAlert(broadcasterId, stream, trackedCategory);
+        } else {
+            await this.updateCategory(broadcasterId, stream, streamInfo['game_id'] as string, streamInfo['game_name'] as string);
+        }
+        await this.saveStream(broadcasterId);
+    }
+
+    /**
+     * Replaces the config, applying it to the alerts of the online streams. The config must have been validated.
+     * @param cfg the new config
+     */
+    async updateConfig(cfg: Config): Promise<void> {
+        this._cfg = cfg;
+        this.startRefreshTimer();
+
+        const broadcasterIds = Object.keys(this._onlineStreams);
+        if (broadcasterIds.length === 0) return;
+        const liveStreams = await this._twitchApi.getStreamsInfo(broadcasterIds);
+        if (!liveStreams) {
+            logger.warn('Could not fetch the online streams, their alerts will be updated with the next event');
+            return;
+        }
+        // Streams that are no longer live will be handled by the stream.offline notification
+        await Promise.all(Object.keys(liveStreams).map(broadcasterId => this.queueEvent(broadcasterId, 'config reload',
+            () => this.applyConfig(broadcasterId, liveStreams[broadcasterId]))));
+    }
+
+    /**
+     * Checks if the guild tracks the given broadcaster, or still has an alert for him.
+     * @param broadcasterId the id of the broadcaster
+     */
+    isTracking(broadcasterId: string): boolean {
+        return this._onlineStreams[broadcasterId] !== undefined || this.isActive(broadcasterId);
+    }
+
+    /**
+     * Checks if the guild sends the alerts of the given broadcaster, that is if he is registered, enabled and his
+     * Twitch user still exists.
+     * @param broadcasterId the id of the broadcaster
+     * @private
+     */
+    private isActive(broadcasterId: string): boolean {
+        const streamer = this._streamers.getById(this._guildId, broadcasterId);
+        return streamer !== undefined && streamer.enabled && !streamer.broken;
+    }
+
+    /**
+     * Gets the category of the online stream of a broadcaster, used to show it in commands.
+     * @param broadcasterId the id of the broadcaster
+     * @return the name of the category and the key of the tracked one, or undefined if the broadcaster is offline
+     */
+    getLiveStream(broadcasterId: string): { category: string, trackedCategory?: string } | undefined {
+        const stream = this._onlineStreams[broadcasterId];
+        if (!stream || stream.offlineAt !== undefined) return undefined;
+        return { category: stream.category, trackedCategory: stream.trackedCategory };
+    }
+
+    /** Stops the timers of the manager, the online streams stay saved so that they are restored by the next manager */
+    stop(): void {
+        clearInterval(this._refreshTimer);
+        this._refreshTimer = undefined;
+        for (const broadcasterId in this._offlineTimers) {
+            clearTimeout(this._offlineTimers[broadcasterId]);
+            delete this._offlineTimers[broadcasterId];
+        }
+    }
+
+    /**
+     * Queues the handling of an event, it will start after all the events previously received for the same
+     * broadcaster have been handled.
+     * @param broadcasterId the id of the broadcaster the event refers to
+     * @param name the name of the event, used in logs
+     * @param handler the function that handles the event, usually one of the 'on' methods of this class
+     */
+    queueEvent(broadcasterId: string, name: string, handler: () => Promise<void>): Promise<void> {
+        return this._eventQueue.enqueue(broadcasterId, name, handler);
+    }
+
+    /**
+     * Handles a stream.online notification, sending an alert in the channel of the tracked category
+     * of the stream, if any.
+     * @param broadcasterId the id of the broadcaster that started streaming
+     * @param broadcasterLogin the login of the broadcaster that started streaming
+     * @param broadcasterName the display name of the broadcaster that started streaming
+     */
+    async onStreamOnline(broadcasterId: string, broadcasterLogin: string, broadcasterName: string): Promise<void> {
+        logger.debug(`Stream online for ${broadcasterId}`);
+        this.syncLogin(broadcasterId, broadcasterLogin, broadcasterName);
+        if (!this.isActive(broadcasterId)) {
+            logger.debug(`Ignoring online notification for ${broadcasterName}, he is disabled or broken`);
+            return;
+        }
+
+        const stream = this._onlineStreams[broadcasterId];
+        if (stream !== undefined && stream.offlineAt !== undefined) {
+            logger.info(`${broadcasterName} is back online within the grace period, keeping the alert`);
+            clearTimeout(this._offlineTimers[broadcasterId]);
+            delete this._offlineTimers[broadcasterId];
+            delete stream.offlineAt;
+            delete stream.raidTarget;
+
+            const streamInfo = await this._twitchApi.getStreamInfo(broadcasterId);
+            if (streamInfo) {
+                await this.updateCategory(broadcasterId, stream,
+                    streamInfo['game_id'] as string, streamInfo['game_name'] as string);
+                if (stream.messageId !== undefined) await this.editAlert(stream, streamInfo);
+            }
+            await this.saveStream(broadcasterId);
+            return;
+        }
+
+        if (stream !== undefined) {
+            logger.warn(`Received online notification for ${broadcasterName} stream that was already cached as online`);
+            this.recordSession(broadcasterId, stream);
+            await this.removeAlert(broadcasterId, stream);
+            await this.deleteStream(broadcasterId);
+        }
+
+        const streamInfo = await this._twitchApi.getStreamInfo(broadcasterId);
+        if (!streamInfo) return;
+        await this.startStream(broadcasterId, streamInfo);
     }
 
     /**
-     * Handles a stream.offline notification, removing the alert if it is present.
+     * Handles a stream.offline notification, ending the alert if it is present. If a grace period is set in the config
+     * the alert is ended only if the stream doesn't come back online before it is over, unless the stream has ended
+     * with a raid.
      * @param broadcasterId the id of the broadcaster that stopped streaming
      * @param broadcasterLogin the login of the broadcaster that stopped streaming
+     * @param raidTarget the login of the raided channel, if the stream has ended with a raid
      */
-    async onStreamOffline(broadcasterId: string, broadcasterLogin: string): Promise<void> {
+    async onStreamOffline(broadcasterId: string, broadcasterLogin: string, raidTarget?: string): Promise<void> {
         logger.debug(`Stream offline for ${broadcasterId}`);
+        this.syncLogin(broadcasterId, broadcasterLogin);
+
+        const stream = this._onlineStreams[broadcasterId];
+        if (stream === undefined) return;
+        stream.raidTarget = raidTarget;
+
+        const gracePeriod = this.getMinutes('offline_grace_period');
+        if (gracePeriod > 0 && raidTarget === undefined) {
+            if (stream.offlineAt !== undefined) return;
+            stream.offlineAt = Date.now();
+            await this.saveStream(broadcasterId);
+            this.scheduleOfflineEnd(broadcasterId, gracePeriod);
+            logger.debug(`Waiting ${formatDuration(gracePeriod)} before ending stream of ${stream.broadcasterLogin}`);
+            return;
+        }
+        await this.endOfflineStream(broadcasterId);
+    }
+
+    /**
+     * Handles a channel.raid notification, announcing the raid if enabled in the config and ending the stream
+     * of the raiding broadcaster. A stream in its offline grace period is ended with the raid, and a stream that has
+     * already ended gets the raid in the history.
+     * @param broadcasterId the id of the raiding broadcaster
+     * @param broadcasterLogin the login of the raiding broadcaster
+     * @param broadcasterName the display name of the raiding broadcaster
+     * @param toId the id of the raided broadcaster
+     * @param toLogin the login of the raided broadcaster
+     * @param toName the display name of the raided broadcaster
+     * @param viewers the number of viewers that joined the raid
+     */
+    async onChannelRaid(broadcasterId: string, broadcasterLogin: string, broadcasterName: string, toId: string, toLogin: string, toName: string, viewers: number): Promise<void> {
+        logger.debug(`Raid from ${broadcasterId} to ${toId}`);
+        this.syncLogin(broadcasterId, broadcasterLogin, broadcasterName);
+        this.syncLogin(toId, toLogin, toName);
 
-        if (this._onlineStreams[broadcasterId] !== undefined) {
-            const msgID = this._onlineStreams[broadcasterId].messageId;
-            if (msgID !== undefined) {
-                await this.deleteMessage(msgID, broadcasterId);
+        if (this._cfg.has('raid_announcement')) {
+            try {
+                await this.sendRaidAnnouncement(broadcasterId, broadcasterName, toId, toLogin, toName, viewers);
+            } catch (e) {
+                logger.error(`Error while sending raid announcement: ${e}`);
             }
-            this.removeStreamerRole(broadcasterLogin).then();
-            delete this._onlineStreams[broadcasterId];
         }
+        // The raid can be received after the stream.offline notification, that has already ended the stream
+        if (this._onlineStreams[broadcasterId] === undefined) {
+            this.addLateRaid(broadcasterId, toLogin);
+            return;
+        }
+        await this.onStreamOffline(broadcasterId, broadcasterLogin, toLogin);
     }
 
     /**
-     * Handles a channel.update notification, removing the alert if the category is no longer the one
-     * specified in the config or sending an alert if it has just changed to it.
+     * Adds a raid to the stream of the broadcaster recorded in the history, if it has just ended.
+     * @param broadcasterId the id of the raiding broadcaster
+     * @param toLogin the login of the raided broadcaster
+     * @private
+     */
+    private addLateRaid(broadcasterId: string, toLogin: string): void {
+        try {
+            if (this._sessions.setLastRaidTarget(this._guildId, broadcasterId, toLogin, Date.now() - StreamManager.LATE_RAID_WINDOW)) {
+                logger.debug(`Added raid to ${toLogin} to the last stream of ${broadcasterId}`);
+            }
+        } catch (e) {
+            logger.error(`Could not add the raid of ${broadcasterId} to the history: ${e}`);
+        }
+    }
+
+    /**
+     * Handles a channel.update notification, removing the alert if the category is no longer tracked,
+     * moving it if the stream switched to a different tracked category or sending an alert if it has just
+     * changed to a tracked one. If the title has changed the alert is edited in place.
      * @param broadcasterId the id of the broadcaster that updated his channel
      * @param broadcasterLogin the login of the broadcaster that update his channel
-     * @param category the new category for the channel
+     * @param categoryId the id of the new category for the channel
+     * @param category the name of the new category for the channel
+     * @param title the new title for the channel
      */
-    async onChannelUpdate(broadcasterId: string, broadcasterLogin: string, category: string): Promise<void> {
+    async onChannelUpdate(broadcasterId: string, broadcasterLogin: string, categoryId: string, category: string, title: string): Promise<void> {
         logger.debug(`Channel update for ${broadcasterId}`);
+        this.syncLogin(broadcasterId, broadcasterLogin);
+        if (!this.isActive(broadcasterId)) return;
 
-        if (this._onlineStreams[broadcasterId] !== undefined) {
-            const msgID = this._onlineStreams[broadcasterId].messageId;
-            if (msgID !== undefined) {
-                if (category.toLowerCase() !== this._cfg.getString('stream_category').toLowerCase()) {
-                    await this.deleteMessage(msgID, broadcasterId);
-                    this.removeStreamerRole(broadcasterLogin).then();
-                }
-            } else if (category.toLowerCase() === this._cfg.getString('stream_category').toLowerCase()) {
+        const stream = this._onlineStreams[broadcasterId];
+        if (stream === undefined) return;
+
+        await this.updateCategory(broadcasterId, stream, categoryId, category);
+        if (stream.title !== title) {
+            stream.titleChanges?.push({ title: title, at: Date.now() });
+            stream.title = title;
+            if (stream.messageId !== undefined) {
                 const streamInfo = await this._twitchApi.getStreamInfo(broadcasterId);
-                if (!streamInfo) return;
-                this._onlineStreams[broadcasterId].messageId = await this.sendStreamEmbed(streamInfo);
-                this.grantStreamerRole(broadcasterLogin).then();
+                if (streamInfo) {
+                    // The notification is more up to date than the Helix endpoint, that may still return the old title
+                    streamInfo['title'] = title;
+                    await this.editAlert(stream, streamInfo);
+                }
             }
         }
+        await this.saveStream(broadcasterId);
     }
-}
\ No newline at end of file
+}
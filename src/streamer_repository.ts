@@ -0,0 +1,377 @@
+import Database from 'better-sqlite3';
+
+/** Overrides for the format of the alerts of a streamer, the keys not present are taken from the config */
+export interface EmbedOverrides {
+    color?: string;
+    title?: string;
+    description?: string;
+    /** Size of the stream preview image, like '440x248', or 'none' to hide it */
+    imageSize?: string;
+}
+
+/** A Twitch channel tracked by a guild, the same channel can be tracked by more guilds */
+export interface Streamer {
+    /** Id of the Discord guild that tracks the streamer */
+    guildId: string;
+    twitchId: string;
+    login: string;
+    displayName: string;
+    /**
+     * Id of the Discord user of the streamer in the guild, undefined for external streamers, like partner channels,
+     * that are not members of the guild and so never get roles
+     */
+    discordUserId?: string;
+    /** Discord role ID that will be given to the streamer when he is streaming, in addition to the online role */
+    roleId?: string;
+    /** Discord role ID for the role mentioned in the alerts of the streamer, instead of the one of the category */
+    pingRoleId?: string;
+    /** Discord role ID for the role of the members that follow the streamer with /notify subscribe */
+    followerRoleId?: string;
+    /** Overrides for the format of the alerts of the streamer */
+    embed?: EmbedOverrides;
+    /** Time when the streamer has been added, in milliseconds */
+    addedAt: number;
+    /** Time when the last stream of the streamer started, in milliseconds */
+    lastOnlineAt?: number;
+    /** Time when the last stream of the streamer ended, in milliseconds */
+    lastOfflineAt?: number;
+    /** If notifications for this streamer should be processed */
+    enabled: boolean;
+    /** If the Twitch user no longer exists, subscriptions are not created for broken streamers */
+    broken: boolean;
+}
+
+/** Row of the streamers table */
+interface StreamerRow {
+    guild_id: string;
+    twitch_id: string;
+    login: string;
+    display_name: string;
+    discord_user_id: string | null;
+    role_id: string | null;
+    ping_role_id: string | null;
+    follower_role_id: string | null;
+    /** Overrides for the format of the alerts, as JSON */
+    embed: string | null;
+    added_at: number;
+    last_online_at: number | null;
+    last_offline_at: number | null;
+    enabled: number;
+    broken: number;
+}
+
+/** Stores the streamers tracked by each guild in the SQLite database */
+export class StreamerRepository {
+    /** Definition of the columns of the streamers table */
+    private static readonly COLUMNS = `(
+        guild_id TEXT NOT NULL,
+        twitch_id TEXT NOT NULL,
+        login TEXT NOT NULL,
+        display_name TEXT NOT NULL,
+        discord_user_id TEXT,
+        role_id TEXT,
+        added_at INTEGER NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        broken INTEGER NOT NULL DEFAULT 0,
+        ping_role_id TEXT,
+        follower_role_id TEXT,
+        embed TEXT,
+        last_online_at INTEGER,
+        last_offline_at INTEGER,
+        PRIMARY KEY (guild_id, twitch_id),
+        UNIQUE (guild_id, login)
+    )`;
+
+    private readonly _db: Database.Database;
+
+    /**
+     * Opens the streamers table, creating or migrating it if needed.
+     * @param dataFilePath the path of the database file
+     * @param defaultGuildId the id of the guild of the streamers saved by versions that supported a single guild
+     */
+    constructor(dataFilePath: string, defaultGuildId: string) {
+        this._db = new Database(dataFilePath);
+        this._db.prepare(`CREATE TABLE IF NOT EXISTS streamers ${StreamerRepository.COLUMNS}`).run();
+
+        // Tables created by older versions miss the columns added later
+        const info = this._db.prepare('PRAGMA table_info(streamers)').all() as { name: string, notnull: number }[];
+        const columns = info.map(column => column.name);
+        const addedColumns: Record<string, string> = {
+            'broken': 'INTEGER NOT NULL DEFAULT 0',
+            'ping_role_id': 'TEXT',
+            'follower_role_id': 'TEXT',
+            'embed': 'TEXT',
+            'last_online_at': 'INTEGER',
+            'last_offline_at': 'INTEGER',
+        };
+        for (const column in addedColumns) {
+            if (columns.includes(column)) continue;
+            this._db.prepare(`ALTER TABLE streamers ADD COLUMN ${column} ${addedColumns[column]}`).run();
+        }
+        // Older tables have no guilds and require a Discord user, that external streamers don't have
+        const hasGuilds = columns.includes('guild_id');
+        if (!hasGuilds || info.find(column => column.name === 'discord_user_id')?.notnull) {
+            this.recreateTable(hasGuilds ? undefined : defaultGuildId);
+        }
+    }
+
+    /**
+     * Creates the table again with the current columns, as SQLite can't change the primary key or the constraints
+     * of a table, keeping all the streamers.
+     * @param guildId the guild to move the streamers to if the table is from a version that supported a single
+     * guild, undefined to keep their guild
+     * @private
+     */
+    private recreateTable(guildId?: string): void {
+        this._db.transaction(() => {
+            this._db.prepare('ALTER TABLE streamers RENAME TO streamers_old').run();
+            this._db.prepare(`CREATE TABLE streamers ${StreamerRepository.COLUMNS}`).run();
+            this._db.prepare(`INSERT INTO streamers
+                (guild_id, twitch_id, login, display_name, discord_user_id, role_id, added_at, enabled, broken,
+                ping_role_id, follower_role_id, embed, last_online_at, last_offline_at)
+                SELECT ${guildId === undefined ? 'guild_id' : '?'}, twitch_id, login, display_name, discord_user_id,
+                role_id, added_at, enabled, broken, ping_role_id, follower_role_id, embed, last_online_at,
+                last_offline_at FROM streamers_old`)
+                .run(...(guildId === undefined ? [] : [guildId]));
+            this._db.prepare('DROP TABLE streamers_old').run();
+        })();
+    }
+
+    /**
+     * Converts a row of the streamers table to a streamer.
+     * @param row the row to convert
+     * @private
+     */
+    private static fromRow(row: StreamerRow): Streamer {
+        return {
+            guildId: row.guild_id,
+            twitchId: row.twitch_id,
+            login: row.login,
+            displayName: row.display_name,
+            discordUserId: row.discord_user_id ?? undefined,
+            roleId: row.role_id ?? undefined,
+            pingRoleId: row.ping_role_id ?? undefined,
+            followerRoleId: row.follower_role_id ?? undefined,
+            embed: row.embed ? JSON.parse(row.embed) : undefined,
+            addedAt: row.added_at,
+            lastOnlineAt: row.last_online_at ?? undefined,
+            lastOfflineAt: row.last_offline_at ?? undefined,
+            enabled: row.enabled !== 0,
+            broken: row.broken !== 0,
+        };
+    }
+
+    /**
+     * Gets the streamer of the given guild that matches the given column value, or undefined if not found.
+     * @param guildId the id of the guild
+     * @param column the column to match
+     * @param value the value of the column
+     * @private
+     */
+    private getBy(guildId: string, column: 'twitch_id' | 'login' | 'discord_user_id', value: string): Streamer | undefined {
+        const row = this._db.prepare(`SELECT * FROM streamers WHERE guild_id = ? AND ${column} = ?`)
+            .get(guildId, value) as StreamerRow | undefined;
+        return row ? StreamerRepository.fromRow(row) : undefined;
+    }
+
+    /**
+     * Gets all streamers, ordered by login.
+     * @param guildId the id of the guild whose streamers are returned, undefined to get the ones of all guilds
+     */
+    getAll(guildId?: string): Streamer[] {
+        const rows = (guildId === undefined
+            ? this._db.prepare('SELECT * FROM streamers ORDER BY login').all()
+            : this._db.prepare('SELECT * FROM streamers WHERE guild_id = ? ORDER BY login').all(guildId)) as StreamerRow[];
+        return rows.map(StreamerRepository.fromRow);
+    }
+
+    /**
+     * Gets all enabled streamers that are not broken, ordered by login.
+     * @param guildId the id of the guild whose streamers are returned, undefined to get the ones of all guilds
+     */
+    getEnabled(guildId?: string): Streamer[] {
+        return this.getAll(guildId).filter(streamer => streamer.enabled && !streamer.broken);
+    }
+
+    /**
+     * Gets the ids of the Twitch channels that are enabled and not broken in at least one guild, these are the
+     * channels whose events the bot subscribes to.
+     */
+    getTrackedIds(): string[] {
+        return [...new Set(this.getEnabled().map(streamer => streamer.twitchId))];
+    }
+
+    /**
+     * Gets the streamer of the given guild with the given Twitch id, or undefined if not found.
+     * @param guildId the id of the guild
+     * @param twitchId the id of the streamer on Twitch
+     */
+    getById(guildId: string, twitchId: string): Streamer | undefined {
+        return this.getBy(guildId, 'twitch_id', twitchId);
+    }
+
+    /**
+     * Gets the streamers with the given Twitch id in all the guilds that track him.
+     * @param twitchId the id of the streamer on Twitch
+     */
+    getAllById(twitchId: string): Streamer[] {
+        const rows = this._db.prepare('SELECT * FROM streamers WHERE twitch_id = ?').all(twitchId) as StreamerRow[];
+        return rows.map(StreamerRepository.fromRow);
+    }
+
+    /**
+     * Gets the streamer of the given guild with the given Twitch login, or undefined if not found.
+     * @param guildId the id of the guild
+     * @param login the login of the streamer on Twitch
+     */
+    getByLogin(guildId: string, login: string): Streamer | undefined {
+        return this.getBy(guildId, 'login', login.toLowerCase());
+    }
+
+    /**
+     * Gets the streamer of the given guild linked to the given Discord user, or undefined if not found.
+     * @param guildId the id of the guild
+     * @param discordUserId the id of the Discord user
+     */
+    getByDiscordUser(guildId: string, discordUserId: string): Streamer | undefined {
+        return this.getBy(guildId, 'discord_user_id', discordUserId);
+    }
+
+    /**
+     * Adds a streamer, unless the guild already has a streamer with the same Twitch id. A streamer of the guild that
+     * still has the same login but a different Twitch id has been renamed on Twitch, his login is released first.
+     * @param streamer the streamer to add
+     * @return false if the guild already has a streamer with the same Twitch id
+     */
+    add(streamer: Streamer): boolean {
+        if (this.getById(streamer.guildId, streamer.twitchId)) return false;
+        this._db.transaction(() => {
+            this.releaseLogin(streamer.login, streamer.twitchId, streamer.guildId);
+            this.insert(streamer);
+        })();
+        return true;
+    }
+
+    /**
+     * Inserts a streamer in the table.
+     * @param streamer the streamer to insert
+     * @private
+     */
+    private insert(streamer: Streamer): void {
+        this._db.prepare(`INSERT INTO streamers
+            (guild_id, twitch_id, login, display_name, discord_user_id, role_id, added_at, enabled, broken,
+            ping_role_id, follower_role_id, embed, last_online_at, last_offline_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`)
+            .run(streamer.guildId, streamer.twitchId, streamer.login.toLowerCase(), streamer.displayName,
+                streamer.discordUserId ?? null, streamer.roleId ?? null, streamer.addedAt, streamer.enabled ? 1 : 0,
+                streamer.broken ? 1 : 0, streamer.pingRoleId ?? null, streamer.followerRoleId ?? null,
+                streamer.embed ? JSON.stringify(streamer.embed) : null, streamer.lastOnlineAt ?? null,
+                streamer.lastOfflineAt ?? null);
+    }
+
+    /**
+     * Removes the streamer of the given guild with the given Twitch id.
+     * @param guildId the id of the guild
+     * @param twitchId the id of the streamer on Twitch
+     */
+    remove(guildId: string, twitchId: string): void {
+        this._db.prepare('DELETE FROM streamers WHERE guild_id = ? AND twitch_id = ?').run(guildId, twitchId);
+    }
+
+    /**
+     * Updates the login and display name of the streamer with the given Twitch id in all guilds, after a rename on
+     * Twitch. The streamers that still have the new login have been renamed too, their login is released first.
+     * @param twitchId the id of the streamer on Twitch
+     * @param login the new login of the streamer
+     * @param displayName the new display name of the streamer
+     * @return the number of streamers whose login has been released
+     */
+    updateLogin(twitchId: string, login: string, displayName: string): number {
+        return this._db.transaction(() => {
+            const released = this.releaseLogin(login, twitchId);
+            this._db.prepare('UPDATE streamers SET login = ?, display_name = ? WHERE twitch_id = ?')
+                .run(login.toLowerCase(), displayName, twitchId);
+            return released;
+        })();
+    }
+
+    /**
+     * Replaces the given login of the streamers with a different Twitch id by a placeholder made from their Twitch
+     * id, that can't be a Twitch login, until their current login is synced.
+     * @param login the login to release
+     * @param twitchId the id on Twitch of the streamer that now has the login
+     * @param guildId the guild to release the login in, undefined for all the guilds
+     * @return the number of streamers whose login has been released
+     * @private
+     */
+    private releaseLogin(login: string, twitchId: string, guildId?: string): number {
+        const guildFilter = guildId === undefined ? '' : ' AND guild_id = ?';
+        return this._db.prepare(`UPDATE streamers SET login = '#' || twitch_id WHERE login = ? AND twitch_id != ?${guildFilter}`)
+            .run(login.toLowerCase(), twitchId, ...(guildId === undefined ? [] : [guildId])).changes;
+    }
+
+    /**
+     * Enables or disables the processing of notifications for the streamer of the given guild with the given Twitch id.
+     * @param guildId the id of the guild
+     * @param twitchId the id of the streamer on Twitch
+     * @param enabled if the streamer should be enabled
+     */
+    setEnabled(guildId: string, twitchId: string, enabled: boolean): void {
+        this._db.prepare('UPDATE streamers SET enabled = ? WHERE guild_id = ? AND twitch_id = ?')
+            .run(enabled ? 1 : 0, guildId, twitchId);
+    }
+
+    /**
+     * Marks the streamer with the given Twitch id as broken in all guilds, when his Twitch user no longer exists, or
+     * as fixed.
+     * @param twitchId the id of the streamer on Twitch
+     * @param broken if the streamer should be marked as broken
+     */
+    setBroken(twitchId: string, broken: boolean): void {
+        this._db.prepare('UPDATE streamers SET broken = ? WHERE twitch_id = ?').run(broken ? 1 : 0, twitchId);
+    }
+
+    /**
+     * Sets the role mentioned in the alerts of the streamer of the given guild with the given Twitch id.
+     * @param guildId the id of the guild
+     * @param twitchId the id of the streamer on Twitch
+     * @param roleId the id of the role, undefined to mention the role of the category
+     */
+    setPingRole(guildId: string, twitchId: string, roleId?: string): void {
+        this._db.prepare('UPDATE streamers SET ping_role_id = ? WHERE guild_id = ? AND twitch_id = ?')
+            .run(roleId ?? null, guildId, twitchId);
+    }
+
+    /**
+     * Sets the role of the members that follow the streamer of the given guild with the given Twitch id.
+     * @param guildId the id of the guild
+     * @param twitchId the id of the streamer on Twitch
+     * @param roleId the id of the role, undefined if the role has been deleted
+     */
+    setFollowerRole(guildId: string, twitchId: string, roleId?: string): void {
+        this._db.prepare('UPDATE streamers SET follower_role_id = ? WHERE guild_id = ? AND twitch_id = ?')
+            .run(roleId ?? null, guildId, twitchId);
+    }
+
+    /**
+     * Sets the overrides for the format of the alerts of the streamer of the given guild with the given Twitch id.
+     * @param guildId the id of the guild
+     * @param twitchId the id of the streamer on Twitch
+     * @param embed the overrides, undefined to use only the format in the config
+     */
+    setEmbed(guildId: string, twitchId: string, embed?: EmbedOverrides): void {
+        this._db.prepare('UPDATE streamers SET embed = ? WHERE guild_id = ? AND twitch_id = ?')
+            .run(embed ? JSON.stringify(embed) : null, guildId, twitchId);
+    }
+
+    /**
+     * Sets the time when the last stream of the streamer with the given Twitch id started or ended, in all guilds.
+     * @param twitchId the id of the streamer on Twitch
+     * @param event if the stream started or ended
+     * @param time the time of the event, in milliseconds
+     */
+    setLastSeen(twitchId: string, event: 'online' | 'offline', time: number): void {
+        const column = event === 'online' ? 'last_online_at' : 'last_offline_at';
+        this._db.prepare(`UPDATE streamers SET ${column} = ? WHERE twitch_id = ?`).run(time, twitchId);
+    }
+}
@@ -0,0 +1,117 @@
+/** Error thrown when a template has an invalid syntax or uses an unknown placeholder */
+export class TemplateError extends Error {}
+
+/** Part of a parsed template */
+type TemplateNode =
+    { type: 'text', text: string } |
+    /** Placeholder replaced by the value of a parameter, or by the fallback if the value is empty */
+    { type: 'value', name: string, fallback?: string } |
+    /** Section rendered only if the parameter has a non empty value, or only if it hasn't when negated */
+    { type: 'if', name: string, negated: boolean, then: TemplateNode[], else: TemplateNode[] };
+
+/**
+ * Template for messages shown in Discord. Supported syntax:
+ * - '${name}' is replaced by the value of the parameter 'name', or by an empty string if it has no value
+ * - '${name|text}' is replaced by 'text' if the parameter 'name' has no value
+ * - '${#if name}...${#else}...${/if}' renders the first part only if the parameter 'name' has a value, the else part
+ * is optional and '${#if !name}' negates the condition
+ */
+export class Template {
+    private static readonly PLACEHOLDER_REGEX = /\${([^}]*)}/g;
+    private static readonly NAME_REGEX = /^[a-zA-Z][a-zA-Z0-9]*$/;
+
+    private readonly _nodes: TemplateNode[];
+
+    /**
+     * Parses a template.
+     * @param source the text of the template
+     * @param names the names of the parameters that the template can use, if undefined any name is allowed
+     * @throws TemplateError if the template is not valid
+     */
+    constructor(source: string, names?: readonly string[]) {
+        // Stack of the nodes lists that are being filled, the last one is the innermost open section
+        const stack: TemplateNode[][] = [[]];
+        const sections: Extract<TemplateNode, { type: 'if' }>[] = [];
+        const checkName = (name: string) => {
+            if (!Template.NAME_REGEX.test(name)) throw new TemplateError(`Invalid placeholder name '${name}'`);
+            if (names && !names.includes(name)) {
+                throw new TemplateError(`Unknown placeholder '${name}', available ones are: ${names.join(', ')}`);
+            }
+        };
+
+        let lastIndex = 0;
+        for (const match of source.matchAll(Template.PLACEHOLDER_REGEX)) {
+            const current = stack[stack.length - 1];
+            const index = match.index as number;
+            if (index > lastIndex) current.push({ type: 'text', text: source.substring(lastIndex, index) });
+            lastIndex = index + match[0].length;
+
+            const content = match[1].trim();
+            if (content.startsWith('#if ')) {
+                let name = content.substring(4).trim();
+                const negated = name.startsWith('!');
+                if (negated) name = name.substring(1).trim();
+                checkName(name);
+                const section: TemplateNode = { type: 'if', name: name, negated: negated, then: [], else: [] };
+                current.push(section);
+                sections.push(section);
+                stack.push(section.then);
+            } else if (content === '#else') {
+                const section = sections[sections.length - 1];
+                if (!section || stack[stack.length - 1] !== section.then) throw new TemplateError('Unexpected ${#else}');
+                stack.pop();
+                stack.push(section.else);
+            } else if (content === '/if') {
+                if (!sections.pop()) throw new TemplateError('Unexpected ${/if}');
+                stack.pop();
+            } else {
+                const separator = content.indexOf('|');
+                const name = separator === -1 ? content : content.substring(0, separator).trim();
+                checkName(name);
+                current.push({
+                    type: 'value',
+                    name: name,
+                    fallback: separator === -1 ? undefined : content.substring(separator + 1) });
+            }
+        }
+        if (sections.length > 0) throw new TemplateError(`Missing \${/if} for \${#if ${sections[sections.length - 1].name}}`);
+        if (lastIndex < source.length) stack[0].push({ type: 'text', text: source.substring(lastIndex) });
+        this._nodes = stack[0];
+    }
+
+    /**
+     * Renders a list of nodes.
+     * @param nodes the nodes to render
+     * @param params the values of the parameters
+     * @private
+     */
+    private static renderNodes(nodes: TemplateNode[], params: Record<string, string | undefined>): string {
+        let result = '';
+        for (const node of nodes) {
+            switch (node.type) {
+            case 'text':
+                result += node.text;
+                break;
+            case 'value': {
+                const value = params[node.name];
+                result += value ? value : node.fallback ?? '';
+                break;
+            }
+            case 'if': {
+                const hasValue = !!params[node.name];
+                result += Template.renderNodes(hasValue !== node.negated ? node.then : node.else, params);
+                break;
+            }
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Renders the template with the given parameters.
+     * @param params the values of the parameters, missing or empty values are considered as not set
+     */
+    render(params: Record<string, string | undefined>): string {
+        return Template.renderNodes(this._nodes, params);
+    }
+}
@@ -0,0 +1,68 @@
+import Database from 'better-sqlite3';
+
+/** Remembers the ids of the EventSub messages received recently, so that redelivered or replayed ones can be ignored */
+export class MessageIdStore {
+    /** Time after which a message id is forgotten, in milliseconds */
+    private readonly _ttl: number;
+    /** Max number of ids kept in memory, the oldest ones are forgotten first */
+    private readonly _maxSize: number;
+
+    /** Maps message ids to the time when they have been received, in insertion order */
+    private readonly _ids = new Map<string, number>();
+    /** Database where ids are persisted, so that they survive restarts */
+    private readonly _db?: Database.Database;
+
+    /**
+     * @param ttl time after which a message id is forgotten, in milliseconds
+     * @param maxSize max number of ids to remember
+     * @param dataFilePath path of the SQLite database where ids are persisted, if undefined they are kept only in memory
+     */
+    constructor(ttl: number, maxSize: number, dataFilePath?: string) {
+        this._ttl = ttl;
+        this._maxSize = maxSize;
+
+        if (dataFilePath) {
+            this._db = new Database(dataFilePath);
+            this._db.prepare(`CREATE TABLE IF NOT EXISTS eventsub_messages (
+                message_id TEXT PRIMARY KEY,
+                received_at INTEGER NOT NULL
+            )`).run();
+            this._db.prepare('DELETE FROM eventsub_messages WHERE received_at < ?').run(Date.now() - ttl);
+
+            const rows = this._db.prepare('SELECT * FROM eventsub_messages ORDER BY received_at').all() as
+                { message_id: string, received_at: number }[];
+            for (const row of rows) this._ids.set(row.message_id, row.received_at);
+            this.prune(Date.now());
+        }
+    }
+
+    /**
+     * Forgets the ids that have expired and the oldest ones if the store is over its max size.
+     * @param now the current time, in milliseconds
+     * @private
+     */
+    private prune(now: number): void {
+        for (const [id, receivedAt] of this._ids) {
+            if (receivedAt >= now - this._ttl && this._ids.size <= this._maxSize) break;
+            this._ids.delete(id);
+            this._db?.prepare('DELETE FROM eventsub_messages WHERE message_id = ?').run(id);
+        }
+    }
+
+    /**
+     * Records a message id, unless it has been already seen.
+     * @param messageId the id of the received message
+     * @return true if the id is new, false if the message is a duplicate
+     */
+    add(messageId: string): boolean {
+        const now = Date.now();
+        this.prune(now);
+        if (this._ids.has(messageId)) return false;
+
+        this._ids.set(messageId, now);
+        this._db?.prepare('INSERT OR REPLACE INTO eventsub_messages (message_id, received_at) VALUES (?, ?)')
+            .run(messageId, now);
+        this.prune(now);
+        return true;
+    }
+}
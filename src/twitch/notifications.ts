@@ -0,0 +1,106 @@
+import log from '../log.js';
+import { AlertDispatcher } from '../alert_dispatcher.js';
+import { JsonPayload } from '../helper.js';
+
+const logger = log('Notifications');
+
+/** Represents a Twitch EventSub notification */
+export interface Notification {
+    'payload': JsonPayload,
+    'broadcasterId': string,
+    'broadcasterLogin': string
+}
+
+/** Function that handles a notification of a specific subscription type */
+export type NotificationHandler = (dispatcher: AlertDispatcher, notification: Notification) => void;
+
+/**
+ * Builds a notification from the payload of an EventSub message.
+ * @param payload the payload containing the 'subscription' and 'event' objects
+ */
+export function parseNotification(payload: JsonPayload): Notification {
+    const event = payload['event'] as JsonPayload;
+    return {
+        'payload': payload,
+        'broadcasterId': event['broadcaster_user_id'] as string,
+        'broadcasterLogin': event['broadcaster_user_login'] as string,
+    };
+}
+
+/**
+ * Handles the revocation of a subscription.
+ * @param dispatcher the dispatcher that will handle this revocation
+ * @param subscription the subscription object contained in the revocation message
+ */
+export function revocationHandler(dispatcher: AlertDispatcher, subscription: JsonPayload): void {
+    logger.warn(`${subscription['type']} notifications revoked!`);
+    logger.warn(`reason: ${subscription['status']}`);
+    logger.warn(`condition: ${JSON.stringify(subscription['condition'], null, 4)}`);
+
+    const condition = subscription['condition'] as JsonPayload;
+    const broadcasterId = (condition['broadcaster_user_id'] ?? condition['from_broadcaster_user_id']) as string;
+    dispatcher.queueEvent(broadcasterId, 'revocation',
+        () => dispatcher.onRevocation(broadcasterId, subscription['type'] as string, subscription['status'] as string))
+        .then(() => logger.debug('Finished handling of revocation'));
+}
+
+/**
+ * Handles the stream.online notification.
+ * @param dispatcher the dispatcher that will handle this notification
+ * @param notification the notification that has been received
+ */
+export function streamOnlineHandler(dispatcher: AlertDispatcher, notification: Notification): void {
+    const broadcasterName = (notification.payload['event'] as JsonPayload)['broadcaster_user_name'] as string;
+    dispatcher.queueEvent(notification.broadcasterId, 'stream.online',
+        () => dispatcher.onStreamOnline(notification.broadcasterId, notification.broadcasterLogin, broadcasterName))
+        .then(() => logger.debug('Finished handling of stream.online notification'));
+}
+
+/**
+ * Handles the stream.offline notification.
+ * @param dispatcher the dispatcher that will handle this notification
+ * @param notification the notification that has been received
+ */
+export function streamOfflineHandler(dispatcher: AlertDispatcher, notification: Notification): void {
+    dispatcher.queueEvent(notification.broadcasterId, 'stream.offline',
+        () => dispatcher.onStreamOffline(notification.broadcasterId, notification.broadcasterLogin))
+        .then(() => logger.debug('Finished handling of stream.offline notification'));
+}
+
+/**
+ * Handles the channel.update notification.
+ * @param dispatcher the dispatcher that will handle this notification
+ * @param notification the notification that has been received
+ */
+export function channelUpdateHandler(dispatcher: AlertDispatcher, notification: Notification): void {
+    const categoryId = (notification.payload['event'] as JsonPayload)['category_id'] as string;
+    const category = (notification.payload['event'] as JsonPayload)['category_name'] as string;
+    const title = (notification.payload['event'] as JsonPayload)['title'] as string;
+    dispatcher.queueEvent(notification.broadcasterId, 'channel.update',
+        () => dispatcher.onChannelUpdate(notification.broadcasterId, notification.broadcasterLogin, categoryId, category, title))
+        .then(() => logger.debug('Finished handling of channel.update notification'));
+}
+
+/**
+ * Handles the channel.raid notification.
+ * @param dispatcher the dispatcher that will handle this notification
+ * @param notification the notification that has been received
+ */
+export function channelRaidHandler(dispatcher: AlertDispatcher, notification: Notification): void {
+    const event = notification.payload['event'] as JsonPayload;
+    const broadcasterId = event['from_broadcaster_user_id'] as string;
+    dispatcher.queueEvent(broadcasterId, 'channel.raid', () => dispatcher.onChannelRaid(
+        broadcasterId, event['from_broadcaster_user_login'] as string,
+        event['from_broadcaster_user_name'] as string, event['to_broadcaster_user_id'] as string,
+        event['to_broadcaster_user_login'] as string, event['to_broadcaster_user_name'] as string,
+        event['viewers'] as number))
+        .then(() => logger.debug('Finished handling of channel.raid notification'));
+}
+
+/** Maps each subscription type to the function that handles its notifications */
+export const notificationHandlers: Record<string, NotificationHandler> = {
+    'stream.online': streamOnlineHandler,
+    'stream.offline': streamOfflineHandler,
+    'channel.update': channelUpdateHandler,
+    'channel.raid': channelRaidHandler,
+};
@@ -0,0 +1,116 @@
+import log from '../log.js';
+import { TwitchApi } from './twitch_api.js';
+import { StreamerRepository } from '../streamer_repository.js';
+
+const logger = log('Reconciler');
+
+/** Changes made to the EventSub subscriptions by a reconciliation */
+export interface ReconcileSummary {
+    /** Number of subscriptions deleted because their streamer is no longer tracked */
+    removed: number;
+    /** Number of subscriptions created because they were missing or had failed */
+    recreated: number;
+    /** Number of subscriptions that could not be created */
+    failed: number;
+}
+
+/** Periodically compares the subscriptions on the EventSub endpoint with the tracked streamers, fixing differences */
+export class SubscriptionReconciler {
+    /** Statuses of subscriptions that are working, or will be working once Twitch verifies the callback */
+    private static readonly HEALTHY_STATUSES = ['enabled', 'webhook_callback_verification_pending'];
+
+    private readonly _twitchApi: TwitchApi;
+    private readonly _streamers: StreamerRepository;
+
+    /** Timer that periodically runs the reconciliation */
+    private _timer?: NodeJS.Timer;
+    /** Reconciliation that is currently running, so that runs never overlap */
+    private _running?: Promise<ReconcileSummary | undefined>;
+
+    constructor(twitchApi: TwitchApi, streamers: StreamerRepository) {
+        this._twitchApi = twitchApi;
+        this._streamers = streamers;
+    }
+
+    /**
+     * Starts running the reconciliation periodically, does nothing if it is already scheduled.
+     * @param interval the time between runs in minutes, 0 disables it
+     */
+    start(interval: number): void {
+        if (this._timer || interval <= 0) return;
+        this._timer = setInterval(() => {
+            this.reconcile()
+                .then(() => logger.debug('Finished scheduled reconciliation'))
+                .catch(e => logger.error(`Error during scheduled reconciliation: ${e}`));
+        }, interval * 60 * 1000);
+    }
+
+    /** Stops running the reconciliation periodically, a run that has already started is not interrupted */
+    stop(): void {
+        clearInterval(this._timer);
+        this._timer = undefined;
+    }
+
+    /**
+     * Runs a reconciliation, or waits for the one already running.
+     * @return a summary of the changes, or undefined if the subscriptions could not be fetched
+     */
+    async reconcile(): Promise<ReconcileSummary | undefined> {
+        if (!this._running) {
+            this._running = this.run().finally(() => this._running = undefined);
+        }
+        return this._running;
+    }
+
+    /**
+     * Deletes the subscriptions of broadcasters that are not tracked and creates the missing or failed subscriptions
+     * of the tracked ones.
+     * @private
+     */
+    private async run(): Promise<ReconcileSummary | undefined> {
+        const subs = await this._twitchApi.getAllSubscriptions(true);
+        if (!subs) {
+            logger.error('Could not fetch the subscriptions, skipping reconciliation');
+            return undefined;
+        }
+
+        const summary: ReconcileSummary = { removed: 0, recreated: 0, failed: 0 };
+        // Subscriptions are shared by all the guilds that track a streamer
+        const trackedIds = this._streamers.getTrackedIds();
+
+        for (const broadcasterId in subs) {
+            if (trackedIds.includes(broadcasterId)) continue;
+            for (const type in subs[broadcasterId]) {
+                const sub = subs[broadcasterId][type];
+                if (typeof sub === 'string') continue;
+                await this._twitchApi.deleteSubscription(sub.id);
+                await this._twitchApi.removeCachedSubscription(broadcasterId, type);
+                logger.info(`Removed orphaned subscription to '${type}' for ${broadcasterId}`);
+                summary.removed++;
+            }
+        }
+
+        for (const broadcasterId of trackedIds) {
+            const login = this._streamers.getAllById(broadcasterId)[0]?.login ?? broadcasterId;
+            for (const type of TwitchApi.SUBSCRIPTION_TYPES) {
+                const sub = subs[broadcasterId]?.[type];
+                const status = sub !== undefined && typeof sub !== 'string' ? sub.status : 'missing';
+                if (SubscriptionReconciler.HEALTHY_STATUSES.includes(status)) continue;
+
+                logger.info(`Subscription to '${type}' for ${login} is ${status}, recreating it`);
+                let subscribed = false;
+                try {
+                    subscribed = await this._twitchApi.subscribeToEvent(type, broadcasterId);
+                } catch (e) {
+                    logger.error(`Error while subscribing to '${type}' for ${login}: ${e}`);
+                }
+                if (subscribed) summary.recreated++;
+                else summary.failed++;
+            }
+        }
+
+        logger.info(`Reconciled subscriptions: ${summary.removed} removed, ${summary.recreated} recreated, ` +
+            `${summary.failed} failed`);
+        return summary;
+    }
+}
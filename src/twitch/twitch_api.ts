@@ -5,26 +5,42 @@ import log from '../log.js';
 
 const logger = log('TwitchAPI');
 
-interface Subscriptions {
+/** Subscriptions made to the EventSub endpoint, mapped by broadcaster id and type, 'name' maps to the login */
+export interface Subscriptions {
     [broadcasterID: string]: {
         [type: string]: { id: string, status: string } | string
     }
 }
 
+/** Options for the transport that Twitch will use to send EventSub notifications */
+export type TransportOptions = {
+    method: 'webhook',
+    /** Url for the webapp that receives event notifications through webhooks */
+    callbackBaseUrl: string,
+    /** Secret that is used to verify notification authenticity */
+    callbackSecret: string,
+} | {
+    method: 'websocket',
+    /** User access token, subscriptions that use the websocket transport can't be created with an app token */
+    userToken: string,
+    /** Token used to request a new user access token when it expires */
+    refreshToken?: string,
+    /** Url of the EventSub subscriptions endpoint, overridden only when testing against a mock server */
+    subscriptionsUrl?: string,
+};
+
 /** Payload to send to subscribe to an event of the EventSub endpoint */
 class EventSubPayload {
     type: string;
     readonly version = '1';
     condition: JsonPayload = {};
-    transport: JsonPayload = {
-        'method': 'webhook' };
+    transport: JsonPayload;
 
-    constructor(type: string, broadcasterID: string, callbackUrl: string, callbackSecret: string) {
+    constructor(type: string, broadcasterID: string, transport: JsonPayload) {
         this.type = type;
         if (type === 'channel.raid') this.condition['from_broadcaster_user_id'] = broadcasterID;
         else this.condition['broadcaster_user_id'] = broadcasterID;
-        this.transport['callback'] = callbackUrl;
-        this.transport['secret'] = callbackSecret;
+        this.transport = transport;
     }
 }
 
@@ -49,21 +65,37 @@ export class TwitchApi {
         'EVENTSUB': TwitchApi.BASE_HELIX_URL + '/eventsub/subscriptions',
         'STREAMS': TwitchApi.BASE_HELIX_URL + '/streams',
     };
+    /** Relative urls of the webhooks that handle notifications, mapped by subscription type */
+    private static readonly callbackUrls: Record<string, string> = {
+        'stream.online': '/online',
+        'stream.offline': '/offline',
+        'channel.update': '/update',
+        'channel.raid': '/raid',
+    };
+    /** Types of the subscriptions made for each streamer */
+    static readonly SUBSCRIPTION_TYPES = Object.keys(TwitchApi.callbackUrls);
 
     private readonly _clientId: string;
     private readonly _clientSecret: string;
-    /** Url for the webapp that receives event notifications through webhooks */
-    private readonly _callbackBaseUrl: string;
-    /** Secret that is used to verify notification authenticity */
-    private readonly _callbackSecret: string;
+    /** Transport that Twitch will use to send notifications for the subscriptions made by this client */
+    private readonly _transport: TransportOptions;
+
+    /** Current user access token, used only with the websocket transport */
+    private _userToken?: string;
+    private _refreshToken?: string;
+    /** Id of the current EventSub WebSocket session, used only with the websocket transport */
+    private _sessionId?: string;
 
     private _cache: Keyv;
 
-    constructor(clientId: string, clientSecret: string, callbackBaseUrl: string, callbackSecret: string, dataFilePath: string) {
+    constructor(clientId: string, clientSecret: string, transport: TransportOptions, dataFilePath: string) {
         this._clientId = clientId;
         this._clientSecret = clientSecret;
-        this._callbackBaseUrl = callbackBaseUrl;
-        this._callbackSecret = callbackSecret;
+        this._transport = transport;
+        if (transport.method === 'websocket') {
+            this._userToken = transport.userToken;
+            this._refreshToken = transport.refreshToken;
+        }
 
         this._cache = new Keyv('sqlite://' + dataFilePath, { namespace: 'twitchApi' });
     }
@@ -71,22 +103,62 @@ export class TwitchApi {
     /**
      * Gets an url with encoded parameters.
      * @param url the base url
-     * @param params an object containing the parameters to encode
+     * @param params an object containing the parameters to encode, or a list of key/value pairs if a key is repeated
      * @private
      */
-    private static getUrlWithParams(url: string, params: Record<string, string>): string {
+    private static getUrlWithParams(url: string, params: Record<string, string> | string[][]): string {
         return url + '?' + new URLSearchParams(params);
     }
 
+    /**
+     * Sets the id of the EventSub WebSocket session that new subscriptions will be bound to.
+     * @param sessionId the id received in the welcome message
+     */
+    setWebSocketSession(sessionId: string): void {
+        this._sessionId = sessionId;
+    }
+
+    /**
+     * Gets the url of the EventSub subscriptions endpoint.
+     * @private
+     */
+    private getEventSubUrl(): string {
+        if (this._transport.method === 'websocket' && this._transport.subscriptionsUrl) {
+            return this._transport.subscriptionsUrl;
+        }
+        return TwitchApi.urls.EVENTSUB;
+    }
+
+    /**
+     * Gets the transport object to send when subscribing to an event.
+     * @param callbackRelativeUrl the relative url that will handle notifications for the event, used only with webhooks
+     * @private
+     */
+    private getTransportPayload(callbackRelativeUrl: string): JsonPayload | undefined {
+        if (this._transport.method === 'webhook') {
+            return {
+                'method': 'webhook',
+                'callback': this._transport.callbackBaseUrl + callbackRelativeUrl,
+                'secret': this._transport.callbackSecret };
+        }
+        if (!this._sessionId) return undefined;
+        return {
+            'method': 'websocket',
+            'session_id': this._sessionId };
+    }
+
     /**
      * Gets the headers needed by Twitch API.
      * @param options options
      * @param options.clientId if the client id should be in the headers (default: true)
      * @param options.json if the content type should be set to json (default: false)
+     * @param options.eventSub if the headers are for the EventSub endpoint, that needs the user token when using
+     * the websocket transport (default: false)
      * @private
      */
-    private async getHeaders({ clientId = true, json = false } = {}): Promise<HeadersInit> {
-        const headers: HeadersInit = { 'Authorization': `Bearer ${await this.getAppToken(false)}` };
+    private async getHeaders({ clientId = true, json = false, eventSub = false } = {}): Promise<HeadersInit> {
+        const token = eventSub && this._userToken ? this._userToken : await this.getAppToken(false);
+        const headers: HeadersInit = { 'Authorization': `Bearer ${token}` };
         if (clientId) headers['Client-Id'] = this._clientId;
         if (json) headers['Content-Type'] = 'application/json';
         return headers;
@@ -135,12 +207,36 @@ export class TwitchApi {
         return token as string;
     }
 
+    /**
+     * Requests a new user access token using the refresh token.
+     * @private
+     */
+    private async refreshUserToken(): Promise<string | undefined> {
+        if (!this._refreshToken) {
+            logger.error('Twitch user token has expired and no refresh token is configured');
+            return undefined;
+        }
+
+        const params = {
+            'client_id': this._clientId,
+            'client_secret': this._clientSecret,
+            'grant_type': 'refresh_token',
+            'refresh_token': this._refreshToken };
+        const res = await this.makeApiCall(TwitchApi.getUrlWithParams(TwitchApi.urls.TOKEN, params), {
+            method: 'post',
+        });
+        if (!res) return undefined;
+
+        this._userToken = res['access_token'] as string;
+        this._refreshToken = res['refresh_token'] as string;
+        return this._userToken;
+    }
+
     /**
      * Gets the id of the user, or undefined if not found
      * @param username the username of the user
-     * @private
      */
-    private async getUserID(username: string): Promise<string | undefined> {
+    async getUserID(username: string): Promise<string | undefined> {
         const url = TwitchApi.getUrlWithParams(TwitchApi.urls.USERS, { 'login': username });
         const res = await this.makeApiCall(url, {
             headers: await this.getHeaders(),
@@ -156,25 +252,24 @@ export class TwitchApi {
     }
 
     /**
-     * Gets the name of the user, or undefined if not found
-     * @param userId the user id
-     * @param login if the login should be returned instead of the display name
-     * @private
+     * Gets the info of all the given users, making one request every 100 users. Users that are not found are skipped.
+     * @param userIds the ids of the users
+     * @param userLogins the logins of other users (default: none)
+     * @return the list of found users, or undefined if a request failed
      */
-    private async getUsername(userId: string, login = false): Promise<string | undefined> {
-        const url = TwitchApi.getUrlWithParams(TwitchApi.urls.USERS, { 'id': userId });
-        const res = await this.makeApiCall(url, {
-            headers: await this.getHeaders(),
-        });
-        if (!res) return undefined;
-
-        const data = res['data'] as JsonPayload[];
-        if (!data[0]) {
-            logger.warn(`No user with username ${userId}`);
-            return undefined;
+    async getUsers(userIds: string[], userLogins: string[] = []): Promise<JsonPayload[] | undefined> {
+        const params: string[][] = [];
+        userIds.forEach(id => params.push(['id', id]));
+        userLogins.forEach(login => params.push(['login', login]));
+
+        const result: JsonPayload[] = [];
+        for (let i = 0; i < params.length; i += 100) {
+            const url = TwitchApi.getUrlWithParams(TwitchApi.urls.USERS, params.slice(i, i + 100));
+            const res = await this.makeApiCall(url, { headers: await this.getHeaders() });
+            if (!res) return undefined;
+            result.push(...res['data'] as JsonPayload[]);
         }
-        if (login) return data[0]['login'] as string;
-        return data[0]['display_name'] as string;
+        return result;
     }
 
     /**
@@ -188,10 +283,10 @@ export class TwitchApi {
         do {
             const params: Record<string, string> = paginationCursor === undefined ?
                 { 'type': type } : { 'type': type, 'after': paginationCursor };
-            const url = TwitchApi.getUrlWithParams(TwitchApi.urls.EVENTSUB, params);
+            const url = TwitchApi.getUrlWithParams(this.getEventSubUrl(), params);
 
             const res = await this.makeApiCall(url, {
-                headers: await this.getHeaders(),
+                headers: await this.getHeaders({ eventSub: true }),
             });
             if (!res) return undefined;
 
@@ -212,13 +307,12 @@ export class TwitchApi {
     /**
      * Deletes a subscription.
      * @param subscriptionID the id of the subscription
-     * @private
      */
-    private async deleteSubscription(subscriptionID: string): Promise<void> {
-        const url = TwitchApi.getUrlWithParams(TwitchApi.urls.EVENTSUB, { 'id': subscriptionID });
+    async deleteSubscription(subscriptionID: string): Promise<void> {
+        const url = TwitchApi.getUrlWithParams(this.getEventSubUrl(), { 'id': subscriptionID });
         await this.makeApiCall(url, {
             method: 'delete',
-            headers: await this.getHeaders(),
+            headers: await this.getHeaders({ eventSub: true }),
         });
     }
 
@@ -243,10 +337,16 @@ export class TwitchApi {
      * Subscribes to the event of the given type for the given broadcaster.
      * @param type a Twitch EventSub event type
      * @param broadcasterID the id of the broadcaster
-     * @param callbackRelativeUrl the relative url that will handle notifications for this event
-     * @private
+     * @return true if the subscription is enabled or pending verification, false if it could not be created
      */
-    private async subscribeToEvent(type: string, broadcasterID: string, callbackRelativeUrl: string): Promise<void> {
+    async subscribeToEvent(type: string, broadcasterID: string): Promise<boolean> {
+        const transport = this.getTransportPayload(TwitchApi.callbackUrls[type]);
+        if (!transport) {
+            logger.warn(`Cannot subscribe to '${type}' for '${broadcasterID}' before the WebSocket session is ready`);
+            return false;
+        }
+
+
         let cachedSubscriptions = await this._cache.get(broadcasterID);
         if (cachedSubscriptions !== undefined) {
             if (cachedSubscriptions[type] !== undefined) {
@@ -254,10 +354,10 @@ export class TwitchApi {
                 const newStatus = await this.getSubscriptionStatus(type, subID);
                 if (newStatus === 'enabled') {
                     logger.debug(`Cached sub is valid for '${broadcasterID}'`);
-                    return;
-                } else if (newStatus === 'webhook_callback_verification_pending') {
+                    return true;
+                } else if (newStatus === 'webhook_callback_verification_pending' && this._transport.method === 'webhook') {
                     logger.warn(`Cached sub is pending verification for '${broadcasterID}'`);
-                    return;
+                    return true;
                 } else {
                     logger.warn(`Cached sub is invalid (${newStatus}) for '${broadcasterID}', attempting to delete`);
                     if (newStatus !== 'not_exists') await this.deleteSubscription(subID);
@@ -269,16 +369,15 @@ export class TwitchApi {
             cachedSubscriptions = {};
         }
 
-        const payload = new EventSubPayload(type, broadcasterID, this._callbackBaseUrl + callbackRelativeUrl,
-            this._callbackSecret);
+        const payload = new EventSubPayload(type, broadcasterID, transport);
 
         try {
-            const res = await this.makeApiCall(TwitchApi.urls.EVENTSUB, {
+            const res = await this.makeApiCall(this.getEventSubUrl(), {
                 method: 'post',
-                headers: await this.getHeaders({ json: true }),
+                headers: await this.getHeaders({ json: true, eventSub: true }),
                 body: JSON.stringify(payload),
             }, [ 409 ]);
-            if (!res) return;
+            if (!res) return false;
 
             const data = (res['data'] as JsonPayload[])[0];
             const id = data['id'];
@@ -289,11 +388,12 @@ export class TwitchApi {
             };
             await this._cache.set(broadcasterID, cachedSubscriptions);
             logger.debug(`Subscribed to '${type}' for '${broadcasterID}'`);
+            return true;
         } catch (e) {
             if (e instanceof TwitchApiError) {
                 logger.warn(`Already registered to ${type} for ${broadcasterID}, trying to fix`);
                 await this.getAllSubscriptions(true);
-                await this.subscribeToEvent(type, broadcasterID, callbackRelativeUrl);
+                return await this.subscribeToEvent(type, broadcasterID);
             } else {
                 throw e;
             }
@@ -302,28 +402,34 @@ export class TwitchApi {
 
     /**
      * Subscribes to receive notification for stream updates for the given user.
-     * @param broadcasterUsername login of the broadcaster
+     * @param broadcasterID id of the broadcaster
      */
-    async subscribeToStreamUpdates(broadcasterUsername: string): Promise<void> {
-        const broadcasterID = await this.getUserID(broadcasterUsername);
-        if (broadcasterID) {
-            await this.subscribeToEvent('stream.online', broadcasterID, '/online');
-            await this.subscribeToEvent('stream.offline', broadcasterID, '/offline');
-            await this.subscribeToEvent('channel.update', broadcasterID, '/update');
-            await this.subscribeToEvent('channel.raid', broadcasterID, '/raid');
+    async subscribeToStreamUpdates(broadcasterID: string): Promise<void> {
+        for (const type in TwitchApi.callbackUrls) {
+            await this.subscribeToEvent(type, broadcasterID);
         }
     }
 
+    /**
+     * Removes a subscription from the cache, after it has been revoked by Twitch.
+     * @param broadcasterID id of the broadcaster
+     * @param type the type of the revoked subscription
+     */
+    async removeCachedSubscription(broadcasterID: string, type: string): Promise<void> {
+        const cachedSubscriptions = await this._cache.get(broadcasterID);
+        if (cachedSubscriptions === undefined || cachedSubscriptions[type] === undefined) return;
+        delete cachedSubscriptions[type];
+        await this._cache.set(broadcasterID, cachedSubscriptions);
+    }
+
     /**
      * Deletes all subscriptions to notifications for the given user
-     * @param broadcasterUsername login of the broadcaster
+     * @param broadcasterID id of the broadcaster
      */
-    async deleteSubscriptions(broadcasterUsername: string) {
-        const broadcasterID = await this.getUserID(broadcasterUsername);
-        if (!broadcasterID) return;
+    async deleteSubscriptions(broadcasterID: string) {
         const cachedSubscriptions = await this._cache.get(broadcasterID);
         if (cachedSubscriptions !== undefined) {
-            for (const type of ['stream.online', 'stream.offline', 'channel.update', 'channel.raid']) {
+            for (const type in TwitchApi.callbackUrls) {
                 if (cachedSubscriptions[type] !== undefined) {
                     const subID = cachedSubscriptions[type]['id'];
                     await this.deleteSubscription(subID);
@@ -336,7 +442,8 @@ export class TwitchApi {
     /**
      * Gets all subscriptions made to the EventSub endpoint
      * @param updateCache if the result should be used to update cache (default: false)
-     * @param fetchLoginNames if the result should contain login names
+     * @param fetchLoginNames if the result should contain login names, they are fetched with one request every 100
+     * broadcasters and are missing for users that no longer exist
      */
     async getAllSubscriptions(updateCache = false, fetchLoginNames = false): Promise<Subscriptions | undefined> {
         const result: Subscriptions = {};
@@ -344,14 +451,14 @@ export class TwitchApi {
         do {
             let url: string;
             if (paginationCursor === undefined) {
-                url = TwitchApi.urls.EVENTSUB;
+                url = this.getEventSubUrl();
             } else {
                 const params = { 'after': paginationCursor };
-                url = TwitchApi.getUrlWithParams(TwitchApi.urls.EVENTSUB, params);
+                url = TwitchApi.getUrlWithParams(this.getEventSubUrl(), params);
             }
 
             const res = await this.makeApiCall(url, {
-                headers: await this.getHeaders(),
+                headers: await this.getHeaders({ eventSub: true }),
             });
             if (!res) return undefined;
 
@@ -365,13 +472,6 @@ export class TwitchApi {
                 const status = sub['status'] as string;
 
                 if (result[broadcasterId] === undefined) result[broadcasterId] = {};
-
-                if (fetchLoginNames) {
-                    if (result[broadcasterId].name === undefined) {
-                        result[broadcasterId].name = await this.getUsername(broadcasterId, true) as string;
-                    }
-                }
-
                 result[broadcasterId][type] = {
                     'id': id,
                     'status': status,
@@ -382,6 +482,12 @@ export class TwitchApi {
             if (paginationCursor === '') paginationCursor = undefined;
         } while (paginationCursor !== undefined);
 
+        if (fetchLoginNames) {
+            const users = await this.getUsers(Object.keys(result));
+            if (!users) return undefined;
+            for (const user of users) result[user['id'] as string].name = user['login'] as string;
+        }
+
         logger.debug(`Subscriptions: ${JSON.stringify(result, null, 2)}`);
 
         if (updateCache) {
@@ -409,6 +515,32 @@ export class TwitchApi {
         }
     }
 
+    /**
+     * Gets stream info for all the given broadcasters that are currently live, making one request every 100 broadcasters.
+     * @param broadcasterIds the ids of the broadcasters
+     * @param broadcasterLogins the logins of other broadcasters (default: none)
+     * @return an object mapping the ids of live broadcasters to their stream info, or undefined if a request failed
+     */
+    async getStreamsInfo(broadcasterIds: string[], broadcasterLogins: string[] = []): Promise<Record<string, JsonPayload> | undefined> {
+        const params: string[][] = [];
+        broadcasterIds.forEach(id => params.push(['user_id', id]));
+        broadcasterLogins.forEach(login => params.push(['user_login', login]));
+
+        const result: Record<string, JsonPayload> = {};
+        for (let i = 0; i < params.length; i += 100) {
+            const pageParams = params.slice(i, i + 100);
+            pageParams.push(['first', '100']);
+            const url = TwitchApi.getUrlWithParams(TwitchApi.urls.STREAMS, pageParams);
+            const res = await this.makeApiCall(url, { headers: await this.getHeaders() });
+            if (!res) return undefined;
+
+            for (const info of res['data'] as JsonPayload[]) {
+                result[info['user_id'] as string] = info;
+            }
+        }
+        return result;
+    }
+
     /**
      * Makes a call to the specified API endpoint and handles errors. If the call is successful returns the payload of the response.
      * @param url the url of the endpoint
@@ -432,8 +564,15 @@ export class TwitchApi {
                 logger.debug(`Response: OK, payload: ${JSON.stringify(payload, null, 2)}`);
                 return payload;
             } else if (res.status === 401) {
-                logger.info('Twitch App Token has expired, requesting new one');
-                await this.getAppToken(true);
+                const headers = options.headers as Record<string, string> | undefined;
+                if (headers && this._userToken && headers['Authorization'] === `Bearer ${this._userToken}`) {
+                    logger.info('Twitch user token has expired, requesting new one');
+                    headers['Authorization'] = `Bearer ${await this.refreshUserToken()}`;
+                } else {
+                    logger.info('Twitch App Token has expired, requesting new one');
+                    const token = await this.getAppToken(true);
+                    if (headers) headers['Authorization'] = `Bearer ${token}`;
+                }
             } else if (errorStatusCodes.includes(res.status)) {
                 throw new TwitchApiError(`Api error with status ${res.status}`, payload);
             } else {
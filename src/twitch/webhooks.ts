@@ -1,16 +1,22 @@
 import log from '../log.js';
-import { StreamManager } from '../stream_manager.js';
-import { JsonPayload } from '../helper.js';
+import { AlertDispatcher } from '../alert_dispatcher.js';
+import {
+    channelRaidHandler, channelUpdateHandler, NotificationHandler, parseNotification, revocationHandler,
+    streamOfflineHandler, streamOnlineHandler,
+} from './notifications.js';
+import { MessageIdStore } from './message_id_store.js';
 import express, { Express, Request, Response } from 'express';
 import { createHmac, timingSafeEqual } from 'crypto';
 
 const logger = log('Webhooks');
 
-/** Represents a Twitch EventSub notification */
-interface Notification {
-    'payload': JsonPayload,
-    'broadcasterId': string,
-    'broadcasterLogin': string
+/** Number of requests that have been rejected, by reason */
+export interface RejectedCounts {
+    invalidSignature: number;
+    /** Requests older than the max message age, that may have been captured and replayed */
+    expired: number;
+    /** Requests with a message id that has already been received */
+    duplicate: number;
 }
 
 /** Manages the web app that receives and handles Twitch EventSub updates through webhooks */
@@ -23,24 +29,35 @@ export class Webhooks {
 
     // Prepend this string to the HMAC that's created from the message
     private static readonly HMAC_PREFIX = 'sha256=';
+    /** Max age of a request, older requests are ignored, in milliseconds */
+    static readonly MAX_MESSAGE_AGE = 10 * 60 * 1000;
 
-    private readonly _streamManager: StreamManager;
+    private readonly _dispatcher: AlertDispatcher;
     /** Internal port to run the webserver on */
     private readonly _port: number;
     /** Secret to verify that messages are sent from Twitch */
     private readonly _secret: string;
+    /** Ids of the messages already received */
+    private readonly _messageIds: MessageIdStore;
     /** Function to call when the webserver has finished loading */
     private readonly _onReady: () => void;
+    private readonly _rejected: RejectedCounts = { invalidSignature: 0, expired: 0, duplicate: 0 };
 
     private _app?: Express;
 
-    constructor(streamManager: StreamManager, port: number, secret: string, onReady: () => void) {
-        this._streamManager = streamManager;
+    constructor(dispatcher: AlertDispatcher, port: number, secret: string, messageIds: MessageIdStore, onReady: () => void) {
+        this._dispatcher = dispatcher;
         this._port = port;
         this._secret = secret;
+        this._messageIds = messageIds;
         this._onReady = onReady;
     }
 
+    /** Gets the number of requests that have been rejected since the webserver has started */
+    getRejectedCounts(): Readonly<RejectedCounts> {
+        return this._rejected;
+    }
+
     /** Instantiate and set up a new Express app and starts it on the given port */
     startWebserver(): void {
         this._app = express();
@@ -50,19 +67,19 @@ export class Webhooks {
         }));
 
         this._app.post('/online', (req, res) => {
-            this.handleRequest(req, res, Webhooks.streamOnlineHandler);
+            this.handleRequest(req, res, streamOnlineHandler);
         });
 
         this._app.post('/offline', (req, res) => {
-            this.handleRequest(req, res, Webhooks.streamOfflineHandler);
+            this.handleRequest(req, res, streamOfflineHandler);
         });
 
         this._app.post('/update', (req, res) => {
-            this.handleRequest(req, res, Webhooks.channelUpdateHandler);
+            this.handleRequest(req, res, channelUpdateHandler);
         });
 
         this._app.post('/raid', (req, res) => {
-            this.handleRequest(req, res, Webhooks.channelRaidHandler);
+            this.handleRequest(req, res, channelRaidHandler);
         });
 
         this._app.listen(this._port, this._onReady);
@@ -102,6 +119,7 @@ export class Webhooks {
         const receivedHmac: string = req.headers[Webhooks.TWITCH_MESSAGE_SIGNATURE] as string;
         if (!hmac || !receivedHmac) {
             logger.warn('HMAC not present in request');
+            this._rejected.invalidSignature++;
             res.sendStatus(403);
             return false;
         }
@@ -111,18 +129,48 @@ export class Webhooks {
             return true;
         } else {
             logger.warn('Received request with invalid hmac');
+            this._rejected.invalidSignature++;
             res.sendStatus(403);
             return false;
         }
     }
 
+    /**
+     * Verifies that the request is recent and that it has not been already received, acknowledging it without
+     * processing it if it is not, so that Twitch stops redelivering it.
+     * @param req the received request
+     * @param res the response object to send status codes to
+     * @private
+     */
+    private verifyRequestIsNew(req: Request, res: Response): boolean {
+        const timestamp = Date.parse(req.headers[Webhooks.TWITCH_MESSAGE_TIMESTAMP] as string);
+        if (isNaN(timestamp) || Date.now() - timestamp > Webhooks.MAX_MESSAGE_AGE) {
+            logger.warn(`Ignoring request older than ${Webhooks.MAX_MESSAGE_AGE / 60000} minutes`);
+            this._rejected.expired++;
+            res.sendStatus(204);
+            return false;
+        }
+
+        // Verification requests must be answered with the challenge every time Twitch retries them
+        if (req.headers[Webhooks.TWITCH_MESSAGE_TYPE] === 'webhook_callback_verification') return true;
+
+        const messageId = req.headers[Webhooks.TWITCH_MESSAGE_ID] as string;
+        if (!this._messageIds.add(messageId)) {
+            logger.debug(`Ignoring duplicate message '${messageId}'`);
+            this._rejected.duplicate++;
+            res.sendStatus(204);
+            return false;
+        }
+        return true;
+    }
+
     /**
      * Verifies the type of request and send status codes accordingly, if type is 'notification' returns true
      * @param req the received request
      * @param res the response object to send status codes to
      * @private
      */
-    private static isNotification(req: Request, res: Response): boolean {
+    private isNotification(req: Request, res: Response): boolean {
         const message = JSON.parse(req.body);
         const reqType: string = req.headers[Webhooks.TWITCH_MESSAGE_TYPE] as string;
         switch (reqType) {
@@ -135,9 +183,7 @@ export class Webhooks {
         case 'revocation':
             res.sendStatus(204);
 
-            logger.warn(`${message.subscription.type} notifications revoked!`);
-            logger.warn(`reason: ${message.subscription.status}`);
-            logger.warn(`condition: ${JSON.stringify(message.subscription.condition, null, 4)}`);
+            revocationHandler(this._dispatcher, message.subscription);
             break;
         default:
             res.sendStatus(200);
@@ -154,60 +200,10 @@ export class Webhooks {
      * @param handler the function that will handle this request's notification
      * @private
      */
-    private handleRequest(req: Request, res: Response, handler: (streamManager: StreamManager, notification: Notification) => void): void {
+    private handleRequest(req: Request, res: Response, handler: NotificationHandler): void {
         if (!this.verifyRequestHmac(req, res)) return;
-        if (!Webhooks.isNotification(req, res)) return;
-        const payload = JSON.parse(req.body);
-        const broadcasterId = payload['event']['broadcaster_user_id'];
-        const broadcasterLogin = payload['event']['broadcaster_user_login'];
-        handler(this._streamManager, { 'payload': payload, 'broadcasterId': broadcasterId, 'broadcasterLogin': broadcasterLogin });
-    }
-
-    /**
-     * Handles the stream.online notification.
-     * @param streamManager the instance of the manager that will handle this notification
-     * @param notification the notification that has been received
-     * @private
-     */
-    private static streamOnlineHandler(streamManager: StreamManager, notification: Notification): void {
-        const broadcasterName = (notification.payload['event'] as JsonPayload)['broadcaster_user_name'] as string;
-        streamManager.onStreamOnline(notification.broadcasterId, notification.broadcasterLogin, broadcasterName)
-            .then(() => logger.debug('Finished handling of stream.online notification'));
-    }
-
-    /**
-     * Handles the stream.offline notification.
-     * @param streamManager the instance of the manager that will handle this notification
-     * @param notification the notification that has been received
-     * @private
-     */
-    private static streamOfflineHandler(streamManager: StreamManager, notification: Notification): void {
-        streamManager.onStreamOffline(notification.broadcasterId, notification.broadcasterLogin)
-            .then(() => logger.debug('Finished handling of stream.offline notification'));
+        if (!this.verifyRequestIsNew(req, res)) return;
+        if (!this.isNotification(req, res)) return;
+        handler(this._dispatcher, parseNotification(JSON.parse(req.body)));
     }
-
-    /**
-     * Handles the channel.update notification.
-     * @param streamManager the instance of the manager that will handle this notification
-     * @param notification the notification that has been received
-     * @private
-     */
-    private static channelUpdateHandler(streamManager: StreamManager, notification: Notification): void {
-        const category = (notification.payload['event'] as JsonPayload)['category_name'] as string;
-        streamManager.onChannelUpdate(notification.broadcasterId, notification.broadcasterLogin, category)
-            .then(() => logger.debug('Finished handling of channel.update notification'));
-    }
-
-    /**
-     * Handles the channel.raid notification.
-     * @param streamManager the instance of the manager that will handle this notification
-     * @param notification the notification that has been received
-     * @private
-     */
-    private static channelRaidHandler(streamManager: StreamManager, notification: Notification): void {
-        const broadcasterId = (notification.payload['event'] as JsonPayload)['from_broadcaster_user_id'] as string;
-        const broadcasterLogin = (notification.payload['event'] as JsonPayload)['from_broadcaster_user_login'] as string;
-        streamManager.onStreamOffline(broadcasterId, broadcasterLogin)
-            .then(() => logger.debug('Finished handling of channel.raid notification'));
-    }
-}
\ No newline at end of file
+}
@@ -0,0 +1,190 @@
+import log from '../log.js';
+import { AlertDispatcher } from '../alert_dispatcher.js';
+import { JsonPayload } from '../helper.js';
+import { notificationHandlers, parseNotification, revocationHandler } from './notifications.js';
+import WebSocket from 'ws';
+
+const logger = log('WebSocket');
+
+/** Manages the connection to the Twitch EventSub WebSocket that receives and handles EventSub updates */
+export class EventSubWebSocket {
+    /** Url of the Twitch EventSub WebSocket server */
+    static readonly DEFAULT_URL = 'wss://eventsub.wss.twitch.tv/ws';
+
+    /** Time to wait after the keepalive timeout before considering the connection dead, in milliseconds */
+    private static readonly KEEPALIVE_GRACE = 5000;
+    /** Max time to wait between reconnection attempts, in milliseconds */
+    private static readonly MAX_RECONNECT_DELAY = 60000;
+
+    private readonly _dispatcher: AlertDispatcher;
+    /** Url of the server to connect to when starting a new session */
+    private readonly _url: string;
+    /** Function to call when a new session has started, subscriptions must be created for the given session id */
+    private readonly _onSession: (sessionId: string) => void;
+
+    /** Socket of the current session */
+    private _socket?: WebSocket;
+    /** Socket that is connecting to the reconnect url sent by Twitch, it replaces the current one once welcomed */
+    private _pendingSocket?: WebSocket;
+    /** Timer that drops the connection if Twitch stops sending messages */
+    private _keepaliveTimer?: NodeJS.Timeout;
+    private _keepaliveTimeout = 0;
+    private _reconnectAttempts = 0;
+
+    constructor(dispatcher: AlertDispatcher, url: string, onSession: (sessionId: string) => void) {
+        this._dispatcher = dispatcher;
+        this._url = url;
+        this._onSession = onSession;
+    }
+
+    /** Connects to the EventSub WebSocket server, starting a new session */
+    connect(): void {
+        this._socket = this.openSocket(this._url);
+    }
+
+    /**
+     * Opens a socket to the given url and sets up its listeners.
+     * @param url the url to connect to
+     * @private
+     */
+    private openSocket(url: string): WebSocket {
+        const socket = new WebSocket(url);
+        socket.on('message', data => this.handleMessage(socket, data.toString()));
+        socket.on('close', (code, reason) => this.handleClose(socket, code, reason.toString()));
+        socket.on('error', e => logger.error(`WebSocket error: ${e}`));
+        return socket;
+    }
+
+    /**
+     * Restarts the timer that drops the connection if no message is received within the keepalive timeout.
+     * @param socket the socket of the current session
+     * @private
+     */
+    private resetKeepaliveTimer(socket: WebSocket): void {
+        if (this._keepaliveTimer) clearTimeout(this._keepaliveTimer);
+        this._keepaliveTimer = setTimeout(() => {
+            logger.warn('No message received within the keepalive timeout, dropping connection');
+            socket.terminate();
+        }, this._keepaliveTimeout * 1000 + EventSubWebSocket.KEEPALIVE_GRACE);
+    }
+
+    /**
+     * Handles a message received from the server.
+     * @param socket the socket that received the message
+     * @param data the raw message
+     * @private
+     */
+    private handleMessage(socket: WebSocket, data: string): void {
+        let message: JsonPayload;
+        try {
+            message = JSON.parse(data);
+        } catch (e) {
+            logger.error(`Received a message that is not valid JSON, ignoring it: ${e}`);
+            return;
+        }
+        const payload = getObject(message, 'payload');
+        const messageType = getObject(message, 'metadata')?.['message_type'] as string;
+        switch (messageType) {
+        case 'session_welcome': {
+            const session = getObject(payload, 'session');
+            if (!session) logger.error('Received a session_welcome message without a session, ignoring it');
+            else this.handleWelcome(socket, session);
+            break;
+        }
+        case 'session_keepalive':
+            this.resetKeepaliveTimer(socket);
+            break;
+        case 'notification': {
+            this.resetKeepaliveTimer(socket);
+            const type = getObject(payload, 'subscription')?.['type'] as string | undefined;
+            if (!payload || !type || !getObject(payload, 'event')) {
+                logger.error('Received a notification without a subscription type or an event, ignoring it');
+                break;
+            }
+            const handler = notificationHandlers[type];
+            if (handler) handler(this._dispatcher, parseNotification(payload));
+            else logger.warn(`Received notification of unknown type '${type}'`);
+            break;
+        }
+        case 'session_reconnect': {
+            const reconnectUrl = getObject(payload, 'session')?.['reconnect_url'];
+            if (typeof reconnectUrl !== 'string') {
+                logger.error('Received a session_reconnect message without a reconnect url, ignoring it');
+                break;
+            }
+            logger.info('Twitch requested a reconnection, connecting to the new url');
+            this._pendingSocket = this.openSocket(reconnectUrl);
+            break;
+        }
+        case 'revocation': {
+            const subscription = getObject(payload, 'subscription');
+            if (!subscription) logger.error('Received a revocation message without a subscription, ignoring it');
+            else revocationHandler(this._dispatcher, subscription);
+            break;
+        }
+        default:
+            logger.warn(`Received message of unknown type '${messageType}'`);
+            break;
+        }
+    }
+
+    /**
+     * Handles a session_welcome message. If it comes from a socket opened after a reconnect message, it replaces the
+     * current socket and keeps the existing subscriptions, otherwise notifies that a new session has started.
+     * @param socket the socket that received the message
+     * @param session the session object contained in the message
+     * @private
+     */
+    private handleWelcome(socket: WebSocket, session: JsonPayload): void {
+        this._keepaliveTimeout = session['keepalive_timeout_seconds'] as number;
+        this._reconnectAttempts = 0;
+
+        if (socket === this._pendingSocket) {
+            const oldSocket = this._socket;
+            this._socket = socket;
+            this._pendingSocket = undefined;
+            oldSocket?.close();
+            this.resetKeepaliveTimer(socket);
+            logger.info('Reconnected to the EventSub WebSocket');
+            return;
+        }
+
+        this.resetKeepaliveTimer(socket);
+        this._onSession(session['id'] as string);
+    }
+
+    /**
+     * Handles the closing of a socket, reconnecting with exponential backoff if the current session was lost.
+     * @param socket the socket that has been closed
+     * @param code the close code
+     * @param reason the close reason
+     * @private
+     */
+    private handleClose(socket: WebSocket, code: number, reason: string): void {
+        if (socket === this._pendingSocket) {
+            logger.warn(`Could not reconnect to the new url (${code}: ${reason})`);
+            this._pendingSocket = undefined;
+            return;
+        }
+        if (socket !== this._socket) return;
+
+        if (this._keepaliveTimer) clearTimeout(this._keepaliveTimer);
+        this._socket = undefined;
+
+        const delay = Math.min(1000 * 2 ** this._reconnectAttempts, EventSubWebSocket.MAX_RECONNECT_DELAY);
+        this._reconnectAttempts++;
+        logger.warn(`EventSub WebSocket closed (${code}: ${reason}), reconnecting in ${delay / 1000}s`);
+        setTimeout(() => this.connect(), delay);
+    }
+}
+
+/**
+ * Gets a nested object of a message, checking that it actually is an object since the message may be malformed.
+ * @param object the object containing the value, if any
+ * @param key the key of the value
+ * @return the nested object, or undefined if it is missing or is not an object
+ */
+const getObject = (object: JsonPayload | undefined, key: string): JsonPayload | undefined => {
+    const value = object?.[key];
+    return typeof value === 'object' && value !== null && !Array.isArray(value) ? value as JsonPayload : undefined;
+};
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Client, TextChannel } from 'discord.js';
+import { parseDocument } from 'yaml';
+import { AlertDispatcher } from '../src/alert_dispatcher.js';
+import { Config } from '../src/config.js';
+import { JsonPayload } from '../src/helper.js';
+import { SessionRepository } from '../src/session_repository.js';
+import { Streamer, StreamerRepository } from '../src/streamer_repository.js';
+import { TwitchApi } from '../src/twitch/twitch_api.js';
+
+vi.mock('better-sqlite3', () => ({
+    default: class {
+        prepare() {
+            return { all: () => [], run: () => ({ changes: 0 }) };
+        }
+
+        close() {
+            return this;
+        }
+    },
+}));
+
+vi.mock('keyv', () => ({
+    default: class {
+        async set() {
+            return true;
+        }
+
+        async delete() {
+            return true;
+        }
+    },
+}));
+
+const GUILD_ID = '100000000000000000';
+const CHANNEL_ID = '100000000000000001';
+const BROADCASTER_ID = '1';
+const TYPE = 'stream.online';
+
+const CONFIG = `
+categories:
+  games:
+    name: Games
+    notification_channel: "${CHANNEL_ID}"
+streamer_online_role: "100000000000000002"
+admin_log_channel: "${CHANNEL_ID}"
+embed:
+  color: "#FF0000"
+  title: "\${name} is live"
+`;
+
+/** Twitch API that records the subscriptions, subscribeToEvent returns the results of 'attempts' in order */
+class FakeTwitchApi {
+    attempts: (boolean | Error)[] = [];
+    subscribeToEvent = vi.fn(async () => {
+        const result = this.attempts.shift() ?? false;
+        if (result instanceof Error) throw result;
+        return result;
+    });
+    removeCachedSubscription = vi.fn(async () => undefined);
+
+    async getStreamInfo(): Promise<JsonPayload> {
+        return {
+            'user_id': BROADCASTER_ID,
+            'user_login': 'streamer',
+            'user_name': 'Streamer',
+            'game_id': '10',
+            'game_name': 'Games',
+            'title': 'Stream title',
+            'viewer_count': 10,
+            'started_at': '2026-10-19T10:00:00Z',
+            'thumbnail_url': 'https://example.com/{width}x{height}.jpg',
+        };
+    }
+
+    async getStreamsInfo() {
+        return {};
+    }
+
+    async getUsers() {
+        return [];
+    }
+}
+
+const dispatchers: AlertDispatcher[] = [];
+
+/**
+ * Creates a dispatcher with the manager of one guild tracking an external streamer, with stubs for Discord and the
+ * repositories. The streamer repository keeps the broken flag set by the dispatcher.
+ */
+const createDispatcher = async () => {
+    const twitch = new FakeTwitchApi();
+    const logs: string[] = [];
+    const alerts: string[] = [];
+    const channel = Object.setPrototypeOf({
+        id: CHANNEL_ID,
+        guildId: GUILD_ID,
+        send: async (options: { content?: string, embeds?: { title?: string }[] }) => {
+            if (options.embeds) alerts.push(options.embeds[0]?.title ?? '');
+            else logs.push(options.content ?? '');
+            return { id: `${logs.length + alerts.length}` };
+        },
+    }, TextChannel.prototype) as TextChannel;
+    const client = {
+        channels: { fetch: async () => channel },
+        guilds: { cache: new Map() },
+    } as unknown as Client;
+
+    const streamer: Streamer = { guildId: GUILD_ID, twitchId: BROADCASTER_ID, login: 'streamer', displayName: 'Streamer', enabled: true, broken: false, addedAt: 0 };
+    const active = () => streamer.enabled && !streamer.broken;
+    const streamers = {
+        getById: (guildId: string, twitchId: string) => twitchId === BROADCASTER_ID ? streamer : undefined,
+        getAllById: (twitchId: string) => twitchId === BROADCASTER_ID ? [streamer] : [],
+        getEnabled: () => active() ? [streamer] : [],
+        getTrackedIds: () => active() ? [BROADCASTER_ID] : [],
+        setBroken: (twitchId: string, broken: boolean) => streamer.broken = broken,
+        setLastSeen: () => undefined,
+        updateLogin: () => 0,
+    } as unknown as StreamerRepository;
+
+    const dispatcher = new AlertDispatcher(client, twitch as unknown as TwitchApi, streamers, {} as SessionRepository,
+        'test.sqlite', GUILD_ID);
+    await dispatcher.setGuildConfig(GUILD_ID, new Config(undefined, undefined, parseDocument(CONFIG)));
+    dispatchers.push(dispatcher);
+    return { dispatcher, twitch, streamer, logs, alerts };
+};
+
+describe('AlertDispatcher', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+        dispatchers.splice(0).forEach(dispatcher => dispatcher.removeGuild(GUILD_ID));
+        vi.useRealTimers();
+    });
+
+    it('removes a revoked subscription from the cache and recreates it with backoff', async () => {
+        const { dispatcher, twitch, logs } = await createDispatcher();
+        twitch.attempts = [false, Error('Twitch is down'), true];
+
+        await dispatcher.onRevocation(BROADCASTER_ID, TYPE, 'notification_failures_exceeded');
+        expect(twitch.removeCachedSubscription).toHaveBeenCalledWith(BROADCASTER_ID, TYPE);
+        expect(twitch.subscribeToEvent).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(59 * 1000);
+        expect(twitch.subscribeToEvent).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(twitch.subscribeToEvent).toHaveBeenCalledTimes(2);
+        // The delay is doubled after each failed attempt
+        await vi.advanceTimersByTimeAsync(60 * 1000);
+        expect(twitch.subscribeToEvent).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(60 * 1000);
+        expect(twitch.subscribeToEvent).toHaveBeenCalledTimes(3);
+        expect(twitch.subscribeToEvent).toHaveBeenLastCalledWith(TYPE, BROADCASTER_ID);
+
+        await vi.advanceTimersByTimeAsync(3600 * 1000);
+        expect(twitch.subscribeToEvent).toHaveBeenCalledTimes(3);
+        expect(logs).toEqual([
+            expect.stringContaining('revoked by Twitch (`notification_failures_exceeded`), resubscribing'),
+            expect.stringContaining('has been recreated'),
+        ]);
+    });
+
+    it('gives up recreating a revoked subscription after the max attempts', async () => {
+        const { dispatcher, twitch, logs } = await createDispatcher();
+
+        await dispatcher.onRevocation(BROADCASTER_ID, TYPE, 'notification_failures_exceeded');
+        await vi.advanceTimersByTimeAsync(24 * 3600 * 1000);
+
+        expect(twitch.subscribeToEvent).toHaveBeenCalledTimes(5);
+        expect(logs.pop()).toContain('Could not recreate the subscription');
+    });
+
+    it('marks the streamer as broken when his Twitch user is removed and sends no alerts for him', async () => {
+        const { dispatcher, twitch, streamer, logs, alerts } = await createDispatcher();
+
+        await dispatcher.onRevocation(BROADCASTER_ID, TYPE, 'user_removed');
+        expect(twitch.removeCachedSubscription).toHaveBeenCalledWith(BROADCASTER_ID, TYPE);
+        expect(streamer.broken).toBe(true);
+        expect(twitch.subscribeToEvent).not.toHaveBeenCalled();
+        expect(logs).toEqual([expect.stringContaining('the streamer has been marked as broken')]);
+
+        await dispatcher.queueEvent(BROADCASTER_ID, 'stream.online',
+            () => dispatcher.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer'));
+        expect(dispatcher.getManager(GUILD_ID)?.isTracking(BROADCASTER_ID)).toBe(false);
+        expect(alerts).toEqual([]);
+    });
+
+    it('sends alerts for a streamer whose subscription has been revoked for a recoverable reason', async () => {
+        const { dispatcher, twitch, alerts } = await createDispatcher();
+        twitch.attempts = [true];
+
+        await dispatcher.onRevocation(BROADCASTER_ID, TYPE, 'notification_failures_exceeded');
+        await dispatcher.queueEvent(BROADCASTER_ID, 'stream.online',
+            () => dispatcher.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer'));
+
+        expect(alerts).toEqual(['Streamer is live']);
+    });
+});
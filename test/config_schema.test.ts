@@ -0,0 +1,165 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseDocument } from 'yaml';
+import { Config } from '../src/config.js';
+import { getValueType, GUILD_ID_KEYS, GUILD_KEYS, validateConfig } from '../src/config_schema.js';
+
+vi.mock('better-sqlite3', () => ({ default: class {} }));
+
+/** Values of a valid config, each key is a line so that tests can replace or remove it */
+const VALID_CONFIG: Record<string, string> = {
+    'token': 'token: "abc"',
+    'client_id': 'client_id: "100000000000000000"',
+    'guild_id': 'guild_id: "100000000000000001"',
+    'twitch_id_client': 'twitch_id_client: "client"',
+    'twitch_secret': 'twitch_secret: "secret"',
+    'webhooks_host': 'webhooks_host: "example.com"',
+    'webhooks_port': 'webhooks_port: 8080',
+    'webhooks_secret': 'webhooks_secret: "0123456789"',
+    'moderation_channel': 'moderation_channel: "100000000000000002"',
+    'streamer_role': 'streamer_role: "100000000000000003"',
+    'streamer_online_role': 'streamer_online_role: "100000000000000004"',
+    'categories': `categories:
+  games:
+    name: Games
+    notification_channel: "100000000000000005"`,
+    'database_file': 'database_file: data.sqlite',
+    'embed': `embed:
+  color: "#FF0000"
+  title: "\${name} is live"`,
+    'summary_embed': `summary_embed:
+  color: "#00FF00"
+  title: "\${name} was live"`,
+};
+
+/**
+ * Creates a config from the valid one.
+ * @param changes the lines to replace, by key, undefined to remove the key
+ * @param extra lines added at the end
+ */
+const createConfig = (changes: Record<string, string | undefined> = {}, extra = '') => {
+    const lines = { ...VALID_CONFIG, ...changes };
+    const source = Object.values(lines).filter(line => line !== undefined).join('\n') + '\n' + extra;
+    return new Config(undefined, undefined, parseDocument(source));
+};
+
+describe('validateConfig', () => {
+    it('accepts a valid config', () => {
+        expect(validateConfig(createConfig())).toEqual([]);
+    });
+
+    it('reports the missing values with their path', () => {
+        expect(validateConfig(createConfig({ 'token': undefined, 'streamer_role': 'streamer_role:' }))).toEqual([
+            { path: 'token', message: 'missing value', hint: 'copy the token from the Bot page of the Discord Developer Portal', severity: 'error' },
+            { path: 'streamer_role', message: 'missing value', hint: expect.stringContaining('Discord ID between quotes'), severity: 'error' },
+        ]);
+    });
+
+    it('reports the invalid values of nested sections and lists with their path and hint', () => {
+        const issues = validateConfig(createConfig({
+            'categories': `categories:
+  games:
+    name: Games
+    notification_channel: 100000000000000005
+  art:
+    game_id: "20"
+    notification_channel: "ID"`,
+            'embed': `embed:
+  color: red
+  title: Live
+  fields:
+    - name: Viewers
+    - value: 10`,
+        }, 'on_offline: archive\n'));
+
+        expect(issues).toEqual([
+            { path: 'categories/games/notification_channel', message: 'IDs must be between quotes, otherwise they are read as rounded numbers', hint: expect.any(String), severity: 'error' },
+            { path: 'categories/art/notification_channel', message: 'still set to the value of the default config', hint: expect.any(String), severity: 'error' },
+            { path: 'embed/color', message: '\'red\' is not valid', hint: 'use a hex color like "#FF5733"', severity: 'error' },
+            { path: 'embed/fields/0/value', message: 'missing value', hint: undefined, severity: 'error' },
+            { path: 'embed/fields/1/name', message: 'missing value', hint: undefined, severity: 'error' },
+            { path: 'embed/fields/1/value', message: 'expected text but found number', hint: undefined, severity: 'error' },
+            { path: 'on_offline', message: '\'archive\' is not valid', hint: 'use one of: delete, edit, edit_and_archive', severity: 'error' },
+        ]);
+    });
+
+    it('reports the unknown keys as warnings, suggesting the similar known ones', () => {
+        expect(validateConfig(createConfig({}, 'alert-cooldown: 5\nunused: true\n'))).toEqual([
+            { path: 'alert-cooldown', message: 'unknown key, it will be ignored', hint: 'did you mean \'alert_cooldown\'?', severity: 'warning' },
+            { path: 'unused', message: 'unknown key, it will be ignored', hint: undefined, severity: 'warning' },
+        ]);
+    });
+
+    it('requires the values that depend on other ones only when they are used', () => {
+        const websocket = { 'webhooks_host': undefined, 'webhooks_port': undefined, 'webhooks_secret': undefined };
+
+        expect(validateConfig(createConfig(websocket, 'transport: websocket\n'))).toEqual([
+            { path: 'websocket', message: 'missing value', hint: undefined, severity: 'error' },
+        ]);
+        expect(validateConfig(createConfig(websocket, 'transport: websocket\nwebsocket:\n  user_token: "token"\n'))).toEqual([]);
+        expect(validateConfig(createConfig({}, 'on_offline: edit_and_archive\n')).map(issue => issue.path)).toEqual(['archive_channel']);
+    });
+
+    it('reports the categories without name nor game id and the invalid recap schedules', () => {
+        const issues = validateConfig(createConfig({
+            'categories': `categories:
+  games:
+    notification_channel: "100000000000000005"`,
+        }, `recaps:
+  weekly:
+    channel: "100000000000000006"
+    schedule: "0 18 * *"
+  never:
+    channel: "100000000000000006"
+    schedule: "0 0 30 2 *"
+`));
+
+        expect(issues).toEqual([
+            { path: 'categories/games', message: 'missing name and game_id', hint: 'set at least one of them', severity: 'error' },
+            { path: 'recaps/weekly/schedule', message: 'invalid schedule, expected 5 fields but found 4', hint: expect.any(String), severity: 'error' },
+            { path: 'recaps/never/schedule', message: 'invalid schedule, the expression never matches', hint: expect.any(String), severity: 'error' },
+        ]);
+    });
+
+    it('reports only the syntax errors of a config that can\'t be parsed', () => {
+        const issues = validateConfig(createConfig({ 'token': 'token: "abc' }));
+
+        expect(issues.length).toBeGreaterThan(0);
+        expect(issues.every(issue => issue.path === 'config.yml' && issue.severity === 'error')).toBe(true);
+        expect(issues[0].hint).toBe('check the indentation and the quotes');
+    });
+});
+
+describe('guild keys', () => {
+    it('are all known values of the config', () => {
+        for (const key of GUILD_KEYS) expect(getValueType([key]), key).toBeDefined();
+        for (const key of GUILD_ID_KEYS) expect(GUILD_KEYS, key).toContain(key);
+    });
+
+    it('make the config of another guild invalid until its channels and roles are set', () => {
+        const cfg = createConfig({}, 'admin_log_channel: "100000000000000007"\n');
+        const guildConfig = cfg.withValues({}, GUILD_ID_KEYS);
+
+        expect(validateConfig(guildConfig).map(issue => issue.path))
+            .toEqual(['moderation_channel', 'streamer_role', 'streamer_online_role', 'categories']);
+        expect(guildConfig.has('admin_log_channel')).toBe(false);
+        expect(guildConfig.has('embed')).toBe(true);
+
+        const settings = {
+            'moderation_channel': '200000000000000002',
+            'streamer_role': '200000000000000003',
+            'streamer_online_role': '200000000000000004',
+            'categories/games/name': 'Games',
+            'categories/games/notification_channel': '200000000000000005',
+        };
+        expect(validateConfig(cfg.withValues(settings, GUILD_ID_KEYS))).toEqual([]);
+    });
+
+    it('report the invalid settings of a guild with their path', () => {
+        const guildConfig = createConfig().withValues({ 'categories/games/ping_role': 'everyone', 'on_offline': 'keep' });
+
+        expect(validateConfig(guildConfig).map(issue => [issue.path, issue.message])).toEqual([
+            ['categories/games/ping_role', '\'everyone\' is not a Discord ID'],
+            ['on_offline', '\'keep\' is not valid'],
+        ]);
+    });
+});
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { CronError, CronExpression } from '../src/cron.js';
+
+/**
+ * Gets the values matched by a field of an expression.
+ * @param expression the expression
+ * @param field the name of the private field, like '_minutes'
+ */
+const values = (expression: string, field: string) =>
+    [...(new CronExpression(expression)[field as keyof CronExpression] as unknown as Set<number>)].sort((a, b) => a - b);
+
+/**
+ * Gets the next times matched by an expression, in local time.
+ * @param expression the expression
+ * @param after the time to start from
+ * @param count the number of times to get
+ */
+const nextTimes = (expression: string, after: Date, count = 1) => {
+    const cron = new CronExpression(expression);
+    const times: Date[] = [];
+    let date = after;
+    for (let i = 0; i < count; i++) {
+        date = cron.next(date);
+        times.push(date);
+    }
+    return times;
+};
+
+describe('CronExpression', () => {
+    it('parses numbers, ranges, steps and lists', () => {
+        expect(values('* * * * *', '_hours')).toHaveLength(24);
+        expect(values('5 * * * *', '_minutes')).toEqual([5]);
+        expect(values('0 9-12 * * *', '_hours')).toEqual([9, 10, 11, 12]);
+        expect(values('*/15 * * * *', '_minutes')).toEqual([0, 15, 30, 45]);
+        expect(values('0 0 1-10/3 * *', '_daysOfMonth')).toEqual([1, 4, 7, 10]);
+        expect(values('0 0 * 10/1 *', '_months')).toEqual([10, 11, 12]);
+        expect(values('1,2,30-31,*/20 * * * *', '_minutes')).toEqual([0, 1, 2, 20, 30, 31, 40]);
+    });
+
+    it('treats both 0 and 7 as Sunday', () => {
+        expect(values('0 0 * * 7', '_daysOfWeek')).toEqual([0, 7]);
+        expect(values('0 0 * * 5-7', '_daysOfWeek')).toEqual([0, 5, 6, 7]);
+    });
+
+    it('rejects invalid expressions', () => {
+        expect(() => new CronExpression('* * * *')).toThrow('expected 5 fields but found 4');
+        expect(() => new CronExpression('* * * * * *')).toThrow(CronError);
+        expect(() => new CronExpression('60 * * * *')).toThrow('minute \'60\' is not between 0 and 59');
+        expect(() => new CronExpression('* * 0 * *')).toThrow('day of month \'0\' is not between 1 and 31');
+        expect(() => new CronExpression('* 5-1 * * *')).toThrow(CronError);
+        expect(() => new CronExpression('*/0 * * * *')).toThrow('invalid step in minute \'*/0\'');
+        expect(() => new CronExpression('a * * * *')).toThrow('invalid minute \'a\'');
+        expect(() => new CronExpression('1, * * * *')).toThrow(CronError);
+        expect(() => new CronExpression('* * * * 8')).toThrow(CronError);
+    });
+
+    it('gets the next times of an expression', () => {
+        const after = new Date(2026, 9, 19, 10, 30, 45);
+
+        expect(nextTimes('* * * * *', after)).toEqual([new Date(2026, 9, 19, 10, 31)]);
+        expect(nextTimes('*/20 * * * *', after, 3))
+            .toEqual([new Date(2026, 9, 19, 10, 40), new Date(2026, 9, 19, 11, 0), new Date(2026, 9, 19, 11, 20)]);
+        expect(nextTimes('0 18 * * 0', after, 2)).toEqual([new Date(2026, 9, 25, 18, 0), new Date(2026, 10, 1, 18, 0)]);
+        expect(nextTimes('0 0 1 * *', after, 3))
+            .toEqual([new Date(2026, 10, 1), new Date(2026, 11, 1), new Date(2027, 0, 1)]);
+        expect(nextTimes('0 0 31 * *', after, 2)).toEqual([new Date(2026, 9, 31), new Date(2026, 11, 31)]);
+    });
+
+    it('excludes the time it starts from', () => {
+        const after = new Date(2026, 9, 19, 18, 0);
+
+        expect(nextTimes('0 18 * * *', after)).toEqual([new Date(2026, 9, 20, 18, 0)]);
+    });
+
+    it('matches a day if either the day of month or the day of week matches when both are restricted', () => {
+        // October 19th 2026 is a Monday
+        const after = new Date(2026, 9, 19, 12, 0);
+
+        expect(nextTimes('0 0 13 * 5', after, 3))
+            .toEqual([new Date(2026, 9, 23), new Date(2026, 9, 30), new Date(2026, 10, 6)]);
+        expect(nextTimes('0 0 13 * *', after)).toEqual([new Date(2026, 10, 13)]);
+        expect(nextTimes('0 0 * * 5', after)).toEqual([new Date(2026, 9, 23)]);
+        expect(nextTimes('0 0 1-7 * 1', new Date(2026, 9, 27), 2)).toEqual([new Date(2026, 10, 1), new Date(2026, 10, 2)]);
+    });
+
+    it('finds times that are years away within the limit', () => {
+        expect(nextTimes('0 0 29 2 *', new Date(2026, 9, 19))).toEqual([new Date(2028, 1, 29)]);
+    });
+
+    it('throws if the expression never matches within 5 years', () => {
+        expect(() => new CronExpression('0 0 30 2 *').next(new Date(2026, 9, 19))).toThrow('the expression never matches');
+        expect(() => new CronExpression('0 0 31 4,6,9,11 *').next(new Date(2026, 9, 19))).toThrow(CronError);
+    });
+});
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { EventQueue } from '../src/event_queue.js';
+
+/** Creates a promise that is resolved from outside, to control when a task completes */
+const deferred = () => {
+    let resolve: () => void = () => undefined;
+    const promise = new Promise<void>(res => resolve = res);
+    return { promise, resolve };
+};
+
+describe('EventQueue', () => {
+    it('runs the tasks of a key in the order they are queued, even if the first ones are slower', async () => {
+        const queue = new EventQueue(1000);
+        const order: string[] = [];
+        const slow = deferred();
+
+        const first = queue.enqueue('a', 'first', async () => {
+            await slow.promise;
+            order.push('first');
+        });
+        const second = queue.enqueue('a', 'second', async () => {
+            order.push('second');
+        });
+        setTimeout(slow.resolve, 20);
+        await Promise.all([first, second]);
+
+        expect(order).toEqual(['first', 'second']);
+    });
+
+    it('runs the tasks of different keys concurrently', async () => {
+        const queue = new EventQueue(1000);
+        const order: string[] = [];
+        const blocked = deferred();
+
+        const a = queue.enqueue('a', 'blocked', async () => {
+            await blocked.promise;
+            order.push('a');
+        });
+        await queue.enqueue('b', 'free', async () => {
+            order.push('b');
+        });
+        blocked.resolve();
+        await a;
+
+        expect(order).toEqual(['b', 'a']);
+    });
+
+    it('keeps running the following tasks after a task fails', async () => {
+        const queue = new EventQueue(1000);
+        const order: string[] = [];
+
+        const failing = queue.enqueue('a', 'failing', async () => {
+            throw Error('failure');
+        });
+        const next = queue.enqueue('a', 'next', async () => {
+            order.push('next');
+        });
+
+        await expect(failing).resolves.toBeUndefined();
+        await next;
+        expect(order).toEqual(['next']);
+    });
+
+    it('does not start the next task of a key while a task that has timed out is still running', async () => {
+        const queue = new EventQueue(10);
+        const order: string[] = [];
+
+        const slow = queue.enqueue('a', 'slow', async () => {
+            order.push('slow started');
+            await new Promise(resolve => setTimeout(resolve, 50));
+            order.push('slow ended');
+        });
+        const next = queue.enqueue('a', 'next', async () => {
+            order.push('next');
+        });
+        await Promise.all([slow, next]);
+
+        expect(order).toEqual(['slow started', 'slow ended', 'next']);
+    });
+});
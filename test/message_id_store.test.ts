@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MessageIdStore } from '../src/twitch/message_id_store.js';
+
+/** Rows of the eventsub_messages table, shared by the mocked databases as if they opened the same file */
+const db = vi.hoisted(() => ({ rows: new Map<string, number>() }));
+
+vi.mock('better-sqlite3', () => ({
+    default: class {
+        prepare(sql: string) {
+            return {
+                run: (...params: (string | number)[]) => {
+                    if (sql.startsWith('INSERT')) {
+                        db.rows.set(params[0] as string, params[1] as number);
+                    } else if (sql.includes('received_at < ?')) {
+                        [...db.rows].filter(([, receivedAt]) => receivedAt < (params[0] as number)).forEach(([id]) => db.rows.delete(id));
+                    } else if (sql.startsWith('DELETE')) {
+                        db.rows.delete(params[0] as string);
+                    }
+                },
+                all: () => [...db.rows].sort((a, b) => a[1] - b[1])
+                    .map(([id, receivedAt]) => ({ 'message_id': id, 'received_at': receivedAt })),
+            };
+        }
+    },
+}));
+
+const TTL = 60 * 1000;
+
+describe('MessageIdStore', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2026, 9, 19, 10, 0));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        db.rows.clear();
+    });
+
+    it('rejects the ids that have already been received', () => {
+        const store = new MessageIdStore(TTL, 10);
+
+        expect(store.add('a')).toBe(true);
+        expect(store.add('b')).toBe(true);
+        expect(store.add('a')).toBe(false);
+        expect(store.add('b')).toBe(false);
+    });
+
+    it('forgets the ids once their time to live has passed', () => {
+        const store = new MessageIdStore(TTL, 10);
+        store.add('a');
+
+        vi.advanceTimersByTime(TTL);
+        expect(store.add('a')).toBe(false);
+        vi.advanceTimersByTime(1);
+        expect(store.add('a')).toBe(true);
+    });
+
+    it('forgets the oldest ids when it is over its max size', () => {
+        const store = new MessageIdStore(TTL, 3);
+        for (const id of ['a', 'b', 'c', 'd']) {
+            store.add(id);
+            vi.advanceTimersByTime(1000);
+        }
+
+        expect(store.add('d')).toBe(false);
+        expect(store.add('b')).toBe(false);
+        expect(store.add('a')).toBe(true);
+        // Adding 'a' again has evicted 'b', the oldest one left
+        expect(store.add('b')).toBe(true);
+    });
+
+    it('keeps the ids that have not expired across restarts', () => {
+        const store = new MessageIdStore(TTL, 10, 'test.sqlite');
+        store.add('a');
+        vi.advanceTimersByTime(TTL / 2);
+        store.add('b');
+        vi.advanceTimersByTime(TTL / 2 + 1);
+
+        const restarted = new MessageIdStore(TTL, 10, 'test.sqlite');
+        expect([...db.rows.keys()]).toEqual(['b']);
+        expect(restarted.add('b')).toBe(false);
+        expect(restarted.add('a')).toBe(true);
+        expect([...db.rows.keys()]).toEqual(['b', 'a']);
+    });
+
+    it('applies the max size to the ids loaded from the database', () => {
+        const store = new MessageIdStore(TTL, 10, 'test.sqlite');
+        for (const id of ['a', 'b', 'c']) {
+            store.add(id);
+            vi.advanceTimersByTime(1000);
+        }
+
+        const restarted = new MessageIdStore(TTL, 2, 'test.sqlite');
+        expect([...db.rows.keys()]).toEqual(['b', 'c']);
+        expect(restarted.add('c')).toBe(false);
+    });
+});
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Client } from 'discord.js';
+import { parseDocument } from 'yaml';
+import { Config } from '../src/config.js';
+import { RecapScheduler } from '../src/recap_scheduler.js';
+import { SessionRepository } from '../src/session_repository.js';
+import { StreamerRepository } from '../src/streamer_repository.js';
+
+vi.mock('better-sqlite3', () => ({ default: class {} }));
+
+const GUILD_ID = '100000000000000000';
+/** Max delay of a timer in Node.js, longer delays fire immediately */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+describe('RecapScheduler', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2026, 9, 19, 10, 0));
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    it('splits the wait for a recap longer than the max delay of a timer', async () => {
+        const fetch = vi.fn(async () => null);
+        const scheduler = new RecapScheduler({ channels: { fetch: fetch } } as unknown as Client,
+            {} as StreamerRepository, {} as SessionRepository);
+        const timers = vi.spyOn(globalThis, 'setTimeout');
+        // Posted on January 1st, 74 days later
+        scheduler.setGuildConfig(GUILD_ID, new Config(undefined, undefined, parseDocument(`
+recaps:
+  yearly:
+    channel: "100000000000000001"
+    schedule: "0 0 1 1 *"
+    period: year
+`)));
+
+        expect(timers).toHaveBeenCalledTimes(1);
+        expect(timers.mock.calls[0][1]).toBe(MAX_TIMER_DELAY);
+
+        await vi.advanceTimersByTimeAsync(MAX_TIMER_DELAY);
+        expect(fetch).not.toHaveBeenCalled();
+        expect(timers).toHaveBeenCalledTimes(2);
+        expect(timers.mock.calls[1][1]).toBe(MAX_TIMER_DELAY);
+
+        await vi.advanceTimersByTimeAsync(new Date(2027, 0, 1).getTime() - Date.now() - 1);
+        expect(fetch).not.toHaveBeenCalled();
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fetch).toHaveBeenCalledTimes(1);
+
+        // The next recap is a year later, so it waits for the max delay again
+        expect(timers.mock.calls[timers.mock.calls.length - 1][1]).toBe(MAX_TIMER_DELAY);
+        scheduler.removeGuild(GUILD_ID);
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Streamer, StreamerRepository } from '../src/streamer_repository.js';
+import { SubscriptionReconciler } from '../src/twitch/reconciler.js';
+import { Subscriptions, TwitchApi } from '../src/twitch/twitch_api.js';
+
+vi.mock('better-sqlite3', () => ({ default: class {} }));
+
+/**
+ * Creates the subscriptions of a broadcaster, with the same status for all the types.
+ * @param broadcasterId the id of the broadcaster
+ * @param status the status of the subscriptions
+ * @param types the types of the subscriptions, all of them if undefined
+ */
+const subscriptions = (broadcasterId: string, status = 'enabled', types = TwitchApi.SUBSCRIPTION_TYPES) => {
+    const subs: Subscriptions[string] = { 'name': `streamer${broadcasterId}` };
+    types.forEach(type => subs[type] = { id: `${broadcasterId}-${type}`, status: status });
+    return subs;
+};
+
+/**
+ * Creates a reconciler for the given streamers, with a Twitch API that returns the given subscriptions.
+ * @param streamers the streamers of all the guilds
+ * @param subs the subscriptions on the EventSub endpoint, undefined if they can't be fetched
+ */
+const createReconciler = (streamers: Partial<Streamer>[], subs: Subscriptions | undefined) => {
+    const twitch = {
+        getAllSubscriptions: vi.fn(async () => subs),
+        deleteSubscription: vi.fn(async () => true),
+        removeCachedSubscription: vi.fn(async () => undefined),
+        subscribeToEvent: vi.fn(async () => true),
+    };
+    const repository = {
+        getTrackedIds: () => [...new Set(streamers.filter(s => s.enabled && !s.broken).map(s => s.twitchId as string))],
+        getAllById: (twitchId: string) => streamers.filter(s => s.twitchId === twitchId),
+    } as unknown as StreamerRepository;
+    return { twitch, reconciler: new SubscriptionReconciler(twitch as unknown as TwitchApi, repository) };
+};
+
+describe('SubscriptionReconciler', () => {
+    it('deletes the subscriptions of the broadcasters that are not tracked, or are broken or disabled', async () => {
+        const { twitch, reconciler } = createReconciler([
+            { twitchId: '1', login: 'tracked', enabled: true, broken: false },
+            { twitchId: '3', login: 'broken', enabled: true, broken: true },
+            { twitchId: '4', login: 'disabled', enabled: false, broken: false },
+        ], {
+            '1': subscriptions('1'),
+            '2': subscriptions('2', 'enabled', ['stream.online']),
+            '3': subscriptions('3', 'enabled', ['stream.online', 'stream.offline']),
+            '4': subscriptions('4', 'notification_failures_exceeded', ['channel.raid']),
+        });
+
+        expect(await reconciler.reconcile()).toEqual({ removed: 4, recreated: 0, failed: 0 });
+        expect(twitch.deleteSubscription.mock.calls.map(call => (call as unknown[])[0]))
+            .toEqual(['2-stream.online', '3-stream.online', '3-stream.offline', '4-channel.raid']);
+        expect(twitch.removeCachedSubscription).toHaveBeenCalledWith('3', 'stream.offline');
+        expect(twitch.subscribeToEvent).not.toHaveBeenCalled();
+    });
+
+    it('creates the missing and failed subscriptions of the tracked broadcasters', async () => {
+        const { twitch, reconciler } = createReconciler([
+            { twitchId: '1', login: 'partial', enabled: true, broken: false },
+            { twitchId: '2', login: 'failed', enabled: true, broken: false },
+            { twitchId: '3', login: 'missing', enabled: true, broken: false },
+        ], {
+            '1': subscriptions('1', 'enabled', ['stream.online', 'stream.offline']),
+            '2': { ...subscriptions('2'), 'channel.update': { id: '2-channel.update', status: 'notification_failures_exceeded' } },
+        });
+        twitch.subscribeToEvent
+            .mockResolvedValueOnce(true)
+            .mockResolvedValueOnce(false)
+            .mockRejectedValueOnce(Error('Twitch is down'));
+
+        const summary = await reconciler.reconcile();
+
+        expect(twitch.subscribeToEvent.mock.calls).toEqual([
+            ['channel.update', '1'],
+            ['channel.raid', '1'],
+            ['channel.update', '2'],
+            ...TwitchApi.SUBSCRIPTION_TYPES.map(type => [type, '3']),
+        ]);
+        expect(summary).toEqual({ removed: 0, recreated: 5, failed: 2 });
+        expect(twitch.deleteSubscription).not.toHaveBeenCalled();
+    });
+
+    it('counts the subscriptions waiting for the callback verification as healthy', async () => {
+        const { twitch, reconciler } = createReconciler([{ twitchId: '1', login: 'pending', enabled: true, broken: false }], {
+            '1': subscriptions('1', 'webhook_callback_verification_pending'),
+        });
+
+        expect(await reconciler.reconcile()).toEqual({ removed: 0, recreated: 0, failed: 0 });
+        expect(twitch.subscribeToEvent).not.toHaveBeenCalled();
+    });
+
+    it('skips the reconciliation if the subscriptions can\'t be fetched', async () => {
+        const { twitch, reconciler } = createReconciler([{ twitchId: '1', login: 'streamer', enabled: true, broken: false }], undefined);
+
+        expect(await reconciler.reconcile()).toBeUndefined();
+        expect(twitch.subscribeToEvent).not.toHaveBeenCalled();
+    });
+
+    it('waits for the running reconciliation instead of starting another one', async () => {
+        const { twitch, reconciler } = createReconciler([{ twitchId: '1', login: 'streamer', enabled: true, broken: false }], {});
+        let fetched: () => void = () => undefined;
+        twitch.getAllSubscriptions.mockImplementationOnce(() => new Promise(resolve => fetched = () => resolve({})));
+
+        const first = reconciler.reconcile();
+        const second = reconciler.reconcile();
+        fetched();
+
+        expect(await first).toEqual({ removed: 0, recreated: 4, failed: 0 });
+        expect(await second).toBe(await first);
+        expect(twitch.getAllSubscriptions).toHaveBeenCalledTimes(1);
+        expect(twitch.subscribeToEvent).toHaveBeenCalledTimes(4);
+
+        // Once it has finished, the next call runs a new reconciliation
+        await reconciler.reconcile();
+        expect(twitch.getAllSubscriptions).toHaveBeenCalledTimes(2);
+    });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { StreamSession } from '../src/session_repository.js';
+import { clipSessions, StatsPeriod, summarizeByStreamer, summarizeSessions } from '../src/stats.js';
+
+vi.mock('better-sqlite3', () => ({ default: class {} }));
+
+const HOUR = 60 * 60 * 1000;
+/** From hour 10 to hour 20 */
+const PERIOD: StatsPeriod = { from: 10 * HOUR, to: 20 * HOUR, label: 'test' };
+
+/**
+ * Creates a session of the given streamer.
+ * @param twitchId the id of the streamer
+ * @param start the hour when the session started
+ * @param end the hour when the session ended
+ * @param categories the categories played, with the hour they started
+ */
+const session = (twitchId: string, start: number, end: number, categories: [string, number][] = [['Games', start]]): StreamSession => ({
+    guildId: '100000000000000000',
+    twitchId: twitchId,
+    login: `streamer${twitchId}`,
+    displayName: `Streamer${twitchId}`,
+    startedAt: start * HOUR,
+    endedAt: end * HOUR,
+    peakViewers: 10,
+    averageViewers: 5,
+    categories: categories.map(([category, at]) => ({ category, at: at * HOUR })),
+    titles: [{ title: 'Title', at: start * HOUR }],
+});
+
+describe('clipSessions', () => {
+    it('counts the sessions that overlap the bounds of the period only for the time inside it', () => {
+        const sessions = clipSessions([
+            session('1', 8, 12, [['Games', 8], ['Art', 9], ['Music', 11]]),
+            session('1', 14, 16),
+            session('2', 18, 23, [['Games', 18], ['Art', 21]]),
+        ], PERIOD);
+
+        expect(sessions.map(s => [s.startedAt / HOUR, s.endedAt / HOUR])).toEqual([[10, 12], [14, 16], [18, 20]]);
+        expect(sessions[0].categories).toEqual([{ category: 'Art', at: 10 * HOUR }, { category: 'Music', at: 11 * HOUR }]);
+        expect(sessions[0].titles).toEqual([{ title: 'Title', at: 10 * HOUR }]);
+        expect(sessions[2].categories).toEqual([{ category: 'Games', at: 18 * HOUR }]);
+
+        const summary = summarizeSessions(sessions);
+        expect(summary.duration).toBe(6 * HOUR);
+        expect(summary.categories).toEqual([['Games', 4 * HOUR], ['Art', HOUR], ['Music', HOUR]]);
+        expect(summarizeByStreamer(sessions).map(s => [s.twitchId, s.duration / HOUR])).toEqual([['1', 4], ['2', 2]]);
+    });
+
+    it('counts a session longer than the period for the whole period', () => {
+        const sessions = clipSessions([session('1', 5, 25)], PERIOD);
+
+        expect(summarizeSessions(sessions).duration).toBe(10 * HOUR);
+        expect(sessions[0].categories).toEqual([{ category: 'Games', at: 10 * HOUR }]);
+    });
+
+    it('removes the sessions outside the period', () => {
+        expect(clipSessions([session('1', 5, 10), session('1', 20, 22)], PERIOD)).toEqual([]);
+    });
+
+    it('does not change the sessions inside the period', () => {
+        const inside = session('1', 12, 14, [['Games', 12], ['Art', 13]]);
+
+        expect(clipSessions([inside], PERIOD)).toEqual([inside]);
+    });
+});
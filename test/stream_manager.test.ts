@@ -0,0 +1,381 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Client, TextChannel } from 'discord.js';
+import { parseDocument } from 'yaml';
+import { Config } from '../src/config.js';
+import { EventQueue } from '../src/event_queue.js';
+import { JsonPayload } from '../src/helper.js';
+import { SessionRepository, StreamSession } from '../src/session_repository.js';
+import { StreamManager } from '../src/stream_manager.js';
+import { StreamerRepository } from '../src/streamer_repository.js';
+import { TwitchApi } from '../src/twitch/twitch_api.js';
+
+/** Streams saved in the database, read by the mocked better-sqlite3 when the manager restores them */
+const db = vi.hoisted(() => ({ savedRows: [] as { key: string, value: string }[] }));
+
+vi.mock('better-sqlite3', () => ({
+    default: class {
+        prepare() {
+            return { all: () => db.savedRows, run: () => ({ changes: 0 }) };
+        }
+
+        close() {
+            return this;
+        }
+    },
+}));
+
+vi.mock('keyv', () => ({
+    default: class {
+        private readonly _values = new Map<string, unknown>();
+
+        async set(key: string, value: unknown) {
+            this._values.set(key, JSON.parse(JSON.stringify(value)));
+            return true;
+        }
+
+        async delete(key: string) {
+            return this._values.delete(key);
+        }
+    },
+}));
+
+const GUILD_ID = '100000000000000000';
+const CHANNEL_ID = '100000000000000001';
+const BROADCASTER_ID = '1';
+
+const CONFIG = `
+categories:
+  games:
+    name: Games
+    notification_channel: "${CHANNEL_ID}"
+  art:
+    name: Art
+    notification_channel: "${CHANNEL_ID}"
+streamer_online_role: "100000000000000002"
+embed:
+  color: "#FF0000"
+  title: "\${name} is live"
+summary_embed:
+  color: "#00FF00"
+  title: "\${name} was live"
+on_offline: edit
+`;
+
+/** Message sent by the manager, with the title of its last embed */
+interface SentMessage {
+    title?: string;
+    edits: number;
+    deleted: boolean;
+}
+
+/** Creates a promise that is resolved from outside, to hold the Twitch API while events are queued */
+const deferred = () => {
+    let resolve: () => void = () => undefined;
+    const promise = new Promise<void>(res => resolve = res);
+    return { promise, resolve };
+};
+
+/** Waits for the pending promises and timers of the manager to run */
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+const streamInfo = (category: string, startedAt = '2026-10-19T10:00:00Z', viewers = 10): JsonPayload => ({
+    'user_id': BROADCASTER_ID,
+    'user_login': 'streamer',
+    'user_name': 'Streamer',
+    'game_id': category === 'Games' ? '10' : '20',
+    'game_name': category,
+    'title': 'Stream title',
+    'viewer_count': viewers,
+    'started_at': startedAt,
+    'language': 'en',
+    'is_mature': false,
+    'thumbnail_url': 'https://example.com/{width}x{height}.jpg',
+});
+
+/** Twitch API that returns the streams set in 'live', each request waits for 'gate' to be open */
+class FakeTwitchApi {
+    live: Record<string, JsonPayload> = {};
+    gate: Promise<void> = Promise.resolve();
+
+    async getStreamInfo(broadcasterId: string) {
+        await this.gate;
+        return this.live[broadcasterId];
+    }
+
+    async getStreamsInfo(broadcasterIds: string[]) {
+        await this.gate;
+        const result: Record<string, JsonPayload> = {};
+        broadcasterIds.filter(id => this.live[id]).forEach(id => result[id] = this.live[id]);
+        return result;
+    }
+
+    async getUsers() {
+        return [];
+    }
+}
+
+/** Creates a text channel that keeps track of the messages sent, edited and deleted in it */
+const createChannel = (messages: Map<string, SentMessage>, guildId: string) => {
+    const channel = Object.setPrototypeOf({
+        id: CHANNEL_ID,
+        guildId: guildId,
+        send: async (options: { embeds: { title?: string }[] }) => {
+            const id = `${messages.size + 1}`;
+            messages.set(id, { title: options.embeds[0]?.title, edits: 0, deleted: false });
+            return { id: id };
+        },
+        messages: {
+            edit: async (id: string, options: { embeds: { title?: string }[] }) => {
+                const message = messages.get(id);
+                if (!message || message.deleted) throw Error('Unknown Message');
+                message.title = options.embeds[0]?.title;
+                message.edits++;
+            },
+            delete: async (id: string) => {
+                const message = messages.get(id);
+                if (message) message.deleted = true;
+            },
+        },
+    }, TextChannel.prototype);
+    return channel as TextChannel;
+};
+
+const managers: StreamManager[] = [];
+
+/**
+ * Creates a stream manager tracking an external streamer, with stubs for Discord and the repositories.
+ * @param cfg the config, appended to the base one
+ * @param channelGuildId the id of the guild of the notification channel
+ */
+const createManager = (cfg = '', channelGuildId = GUILD_ID) => {
+    const twitch = new FakeTwitchApi();
+    const messages = new Map<string, SentMessage>();
+    const channel = createChannel(messages, channelGuildId);
+    const client = {
+        channels: { fetch: async () => channel },
+        guilds: { cache: new Map() },
+    } as unknown as Client;
+    const streamer = { guildId: GUILD_ID, twitchId: BROADCASTER_ID, login: 'streamer', displayName: 'Streamer', enabled: true, broken: false, addedAt: 0 };
+    const streamers = {
+        getById: (guildId: string, twitchId: string) => twitchId === BROADCASTER_ID ? streamer : undefined,
+        getEnabled: () => [streamer],
+        updateLogin: () => undefined,
+    } as unknown as StreamerRepository;
+    const sessions: StreamSession[] = [];
+    const sessionRepository = {
+        add: (session: StreamSession) => sessions.push(session),
+        setLastRaidTarget: (guildId: string, twitchId: string, raidTarget: string, endedAfter: number) => {
+            const last = sessions.filter(session => session.twitchId === twitchId).pop();
+            if (!last || last.endedAt < endedAfter || last.raidTarget) return false;
+            last.raidTarget = raidTarget;
+            return true;
+        },
+    } as unknown as SessionRepository;
+
+    const create = () => {
+        const manager = new StreamManager(client, twitch as unknown as TwitchApi, streamers, sessionRepository, 'test.sqlite',
+            new Config(undefined, undefined, parseDocument(CONFIG + cfg)), GUILD_ID, new EventQueue(1000));
+        managers.push(manager);
+        return manager;
+    };
+    return { twitch, messages, sessions, streamer, create };
+};
+
+/**
+ * Queues an event in the manager, as the alert dispatcher does.
+ * @param manager the manager that handles the event
+ * @param handler the handler of the event
+ */
+const queue = (manager: StreamManager, handler: () => Promise<void>) => manager.queueEvent(BROADCASTER_ID, 'test event', handler);
+
+describe('StreamManager', () => {
+    afterEach(() => {
+        managers.splice(0).forEach(manager => manager.stop());
+        db.savedRows = [];
+    });
+
+    it('handles simultaneous online, update and offline events in order', async () => {
+        const { twitch, messages, sessions, create } = createManager();
+        const manager = create();
+        await settle();
+
+        twitch.live[BROADCASTER_ID] = streamInfo('Games');
+        const gate = deferred();
+        twitch.gate = gate.promise;
+        const events = [
+            queue(manager, () => manager.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer')),
+            queue(manager, () => manager.onChannelUpdate(BROADCASTER_ID, 'streamer', '20', 'Art', 'New title')),
+            queue(manager, () => manager.onStreamOffline(BROADCASTER_ID, 'streamer')),
+        ];
+        gate.resolve();
+        await Promise.all(events);
+
+        expect(manager.getLiveStream(BROADCASTER_ID)).toBeUndefined();
+        expect([...messages.values()]).toMatchObject([{ title: 'Streamer was live', deleted: false }]);
+        expect(sessions).toHaveLength(1);
+        expect(sessions[0].categories.map(change => change.category)).toEqual(['Games', 'Art']);
+        expect(sessions[0].titles.map(change => change.title)).toEqual(['Stream title', 'New title']);
+    });
+
+    it('ignores an update received after the stream has ended', async () => {
+        const { twitch, messages, sessions, create } = createManager();
+        const manager = create();
+        await settle();
+
+        twitch.live[BROADCASTER_ID] = streamInfo('Games');
+        await queue(manager, () => manager.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer'));
+        delete twitch.live[BROADCASTER_ID];
+        await Promise.all([
+            queue(manager, () => manager.onStreamOffline(BROADCASTER_ID, 'streamer')),
+            queue(manager, () => manager.onChannelUpdate(BROADCASTER_ID, 'streamer', '20', 'Art', 'Late title')),
+        ]);
+
+        expect(manager.getLiveStream(BROADCASTER_ID)).toBeUndefined();
+        expect([...messages.values()]).toEqual([{ title: 'Streamer was live', edits: 1, deleted: false }]);
+        expect(sessions).toHaveLength(1);
+    });
+
+    it('does not refresh an alert over the summary of a stream that ended during the refresh', async () => {
+        const { twitch, messages, sessions, create } = createManager();
+        const manager = create();
+        await settle();
+
+        twitch.live[BROADCASTER_ID] = streamInfo('Games');
+        await queue(manager, () => manager.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer'));
+
+        const gate = deferred();
+        twitch.gate = gate.promise;
+        const refresh = manager['refreshAlerts']();
+        const offline = queue(manager, () => manager.onStreamOffline(BROADCASTER_ID, 'streamer'));
+        await settle();
+        twitch.live[BROADCASTER_ID] = streamInfo('Games', undefined, 500);
+        gate.resolve();
+        await Promise.all([refresh, offline]);
+
+        expect([...messages.values()]).toEqual([{ title: 'Streamer was live', edits: 1, deleted: false }]);
+        expect(sessions[0].peakViewers).toBe(10);
+    });
+
+    it('keeps the alert of a stream that comes back online within the grace period', async () => {
+        const { twitch, messages, sessions, create } = createManager('offline_grace_period: 1\n');
+        const manager = create();
+        await settle();
+
+        twitch.live[BROADCASTER_ID] = streamInfo('Games');
+        await queue(manager, () => manager.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer'));
+        await Promise.all([
+            queue(manager, () => manager.onStreamOffline(BROADCASTER_ID, 'streamer')),
+            queue(manager, () => manager.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer')),
+        ]);
+
+        expect(manager.getLiveStream(BROADCASTER_ID)).toEqual({ category: 'Games', trackedCategory: 'games' });
+        expect(messages.size).toBe(1);
+        expect(messages.get('1')?.title).toBe('Streamer is live');
+        expect(sessions).toHaveLength(0);
+    });
+
+    it('restores a saved stream after the events received while the bot was starting', async () => {
+        const { twitch, messages, create } = createManager();
+        const saved = {
+            broadcasterLogin: 'streamer', broadcasterName: 'Streamer', category: 'Games', title: 'Old title',
+            trackedCategory: 'games', messageId: 'old', channelId: CHANNEL_ID, startedAt: '2026-10-18T10:00:00Z',
+            peakViewers: 5, categories: ['Games'],
+        };
+        db.savedRows = [{ key: `${StreamManager.getNamespace(GUILD_ID)}:${BROADCASTER_ID}`, value: JSON.stringify({ value: saved }) }];
+        messages.set('old', { title: 'Streamer is live', edits: 0, deleted: false });
+        twitch.live[BROADCASTER_ID] = streamInfo('Games');
+        const gate = deferred();
+        twitch.gate = gate.promise;
+
+        const manager = create();
+        const online = queue(manager, () => manager.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer'));
+        gate.resolve();
+        await online;
+        await settle();
+
+        expect(messages.get('old')?.deleted).toBe(true);
+        expect([...messages.values()].filter(message => !message.deleted)).toEqual([{ title: 'Streamer is live', edits: 0, deleted: false }]);
+        expect(manager.getLiveStream(BROADCASTER_ID)).toEqual({ category: 'Games', trackedCategory: 'games' });
+    });
+
+    it('keeps the alert cooldown of a saved stream after a restart', async () => {
+        const { twitch, messages, create } = createManager('alert_cooldown: 60\n');
+        const saved = {
+            broadcasterLogin: 'streamer', broadcasterName: 'Streamer', category: 'Games', title: 'Old title',
+            trackedCategory: 'games', messageId: 'old', channelId: CHANNEL_ID, startedAt: '2026-10-18T10:00:00Z',
+            peakViewers: 5, categories: ['Games'], lastAlertAt: Date.now() - 10 * 60 * 1000,
+        };
+        db.savedRows = [{ key: `${StreamManager.getNamespace(GUILD_ID)}:${BROADCASTER_ID}`, value: JSON.stringify({ value: saved }) }];
+        messages.set('old', { title: 'Streamer is live', edits: 0, deleted: false });
+        // The saved stream has ended and a new one has started while the bot was offline
+        twitch.live[BROADCASTER_ID] = streamInfo('Games');
+
+        const manager = create();
+        await settle();
+
+        expect([...messages.values()]).toEqual([{ title: 'Streamer was live', edits: 1, deleted: false }]);
+        expect(manager.getLiveStream(BROADCASTER_ID)).toEqual({ category: 'Games', trackedCategory: 'games' });
+        expect(manager['_onlineStreams'][BROADCASTER_ID].lastAlertAt).toBe(saved.lastAlertAt);
+    });
+
+    it('does not send alerts to a channel of another guild', async () => {
+        const { twitch, messages, create } = createManager('', '200000000000000000');
+        const manager = create();
+        await settle();
+
+        twitch.live[BROADCASTER_ID] = streamInfo('Games');
+        await queue(manager, () => manager.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer'));
+
+        expect(messages.size).toBe(0);
+    });
+
+    it('does not send alerts for disabled or broken streamers', async () => {
+        const { twitch, messages, streamer, create } = createManager();
+        const manager = create();
+        await settle();
+
+        twitch.live[BROADCASTER_ID] = streamInfo('Games');
+        streamer.enabled = false;
+        await queue(manager, () => manager.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer'));
+        expect(manager.isTracking(BROADCASTER_ID)).toBe(false);
+
+        streamer.enabled = true;
+        streamer.broken = true;
+        await queue(manager, () => manager.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer'));
+        expect(manager.isTracking(BROADCASTER_ID)).toBe(false);
+
+        expect(messages.size).toBe(0);
+    });
+
+    it('ends a stream in its grace period with a raid received after the offline notification', async () => {
+        const { twitch, messages, sessions, create } = createManager('offline_grace_period: 1\n');
+        const manager = create();
+        await settle();
+
+        twitch.live[BROADCASTER_ID] = streamInfo('Games');
+        await queue(manager, () => manager.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer'));
+        await Promise.all([
+            queue(manager, () => manager.onStreamOffline(BROADCASTER_ID, 'streamer')),
+            queue(manager, () => manager.onChannelRaid(BROADCASTER_ID, 'streamer', 'Streamer', '2', 'target', 'Target', 5)),
+        ]);
+
+        expect(manager.getLiveStream(BROADCASTER_ID)).toBeUndefined();
+        expect(messages.get('1')?.title).toBe('Streamer was live');
+        expect(sessions.map(session => session.raidTarget)).toEqual(['target']);
+    });
+
+    it('adds a raid received after the offline notification to the recorded stream', async () => {
+        const { twitch, sessions, create } = createManager();
+        const manager = create();
+        await settle();
+
+        twitch.live[BROADCASTER_ID] = streamInfo('Games');
+        await queue(manager, () => manager.onStreamOnline(BROADCASTER_ID, 'streamer', 'Streamer'));
+        await Promise.all([
+            queue(manager, () => manager.onStreamOffline(BROADCASTER_ID, 'streamer')),
+            queue(manager, () => manager.onChannelRaid(BROADCASTER_ID, 'streamer', 'Streamer', '2', 'target', 'Target', 5)),
+        ]);
+
+        expect(sessions.map(session => session.raidTarget)).toEqual(['target']);
+    });
+});
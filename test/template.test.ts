@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { format } from '../src/helper.js';
+import { Template, TemplateError } from '../src/template.js';
+
+describe('Template', () => {
+    it('replaces the placeholders with the values of the parameters', () => {
+        const template = new Template('${name} is live: ${ streamTitle }');
+
+        expect(template.render({ name: 'Streamer', streamTitle: 'Title' })).toBe('Streamer is live: Title');
+        expect(template.render({ name: 'Streamer' })).toBe('Streamer is live: ');
+    });
+
+    it('uses the fallback of a placeholder when its parameter has no value', () => {
+        const template = new Template('Playing ${category|something}, ${viewers|no} viewers');
+
+        expect(template.render({ category: 'Games', viewers: '10' })).toBe('Playing Games, 10 viewers');
+        expect(template.render({ category: '', viewers: undefined })).toBe('Playing something, no viewers');
+        expect(new Template('${name|}!').render({})).toBe('!');
+        expect(new Template('${name|a|b}').render({})).toBe('a|b');
+    });
+
+    it('renders the sections whose condition is met', () => {
+        const template = new Template('${#if pingRole}${pingRole} ${#else}Hey ${/if}${#if !title}no title${/if}');
+
+        expect(template.render({ pingRole: '@Live' })).toBe('@Live no title');
+        expect(template.render({ pingRole: '', title: 'Title' })).toBe('Hey ');
+    });
+
+    it('renders nested sections', () => {
+        const template = new Template(
+            '${#if a}A${#if b}B${#else}!B${/if}${#else}!A${#if !b}!B${#else}B${/if}${/if}.');
+
+        expect(template.render({ a: '1', b: '1' })).toBe('AB.');
+        expect(template.render({ a: '1' })).toBe('A!B.');
+        expect(template.render({ b: '1' })).toBe('!AB.');
+        expect(template.render({})).toBe('!A!B.');
+    });
+
+    it('rejects invalid placeholder names', () => {
+        expect(() => new Template('${}')).toThrow(TemplateError);
+        expect(() => new Template('${1name}')).toThrow('Invalid placeholder name \'1name\'');
+        expect(() => new Template('${stream title}')).toThrow(TemplateError);
+        expect(() => new Template('${#if na-me}x${/if}')).toThrow('Invalid placeholder name \'na-me\'');
+    });
+
+    it('rejects the placeholders that are not in the allowed names', () => {
+        expect(() => new Template('${name} ${viewers}', ['name', 'url']))
+            .toThrow('Unknown placeholder \'viewers\', available ones are: name, url');
+        expect(() => new Template('${#if !viewers}x${/if}', ['name'])).toThrow(TemplateError);
+        expect(new Template('${name} ${url|none}', ['name', 'url']).render({ name: 'a' })).toBe('a none');
+    });
+
+    it('rejects unbalanced sections', () => {
+        expect(() => new Template('${#if name}x')).toThrow('Missing ${/if} for ${#if name}');
+        expect(() => new Template('x${/if}')).toThrow('Unexpected ${/if}');
+        expect(() => new Template('${#else}')).toThrow('Unexpected ${#else}');
+        expect(() => new Template('${#if name}a${#else}b${#else}c${/if}')).toThrow('Unexpected ${#else}');
+    });
+});
+
+describe('format', () => {
+    it('renders the same template with different parameters', () => {
+        const source = '${#if name}${name}${#else}${fallback|nobody}${/if} is live';
+
+        expect(format(source, { name: 'Streamer' })).toBe('Streamer is live');
+        expect(format(source, {})).toBe('nobody is live');
+        expect(format(source, { fallback: 'Someone' })).toBe('Someone is live');
+    });
+
+    it('throws for invalid templates every time they are used', () => {
+        expect(() => format('${#if name}', {})).toThrow(TemplateError);
+        expect(() => format('${#if name}', {})).toThrow(TemplateError);
+    });
+});
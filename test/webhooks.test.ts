@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Request, Response } from 'express';
+import { AlertDispatcher } from '../src/alert_dispatcher.js';
+import { MessageIdStore } from '../src/twitch/message_id_store.js';
+import { Webhooks } from '../src/twitch/webhooks.js';
+
+vi.mock('better-sqlite3', () => ({ default: class {} }));
+
+/**
+ * Creates a request received from Twitch.
+ * @param messageId the id of the message
+ * @param sentAt the time when the message has been sent
+ * @param type the type of the message
+ */
+const request = (messageId: string, sentAt: Date | string, type = 'notification') => ({
+    headers: {
+        'twitch-eventsub-message-id': messageId,
+        'twitch-eventsub-message-timestamp': typeof sentAt === 'string' ? sentAt : sentAt.toISOString(),
+        'twitch-eventsub-message-type': type,
+    },
+} as unknown as Request);
+
+/** Creates a response that records the status sent */
+const response = () => ({ sendStatus: vi.fn() });
+
+describe('Webhooks', () => {
+    let webhooks: Webhooks;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date(2026, 9, 19, 10, 0));
+        webhooks = new Webhooks({} as AlertDispatcher, 8080, 'secret', new MessageIdStore(Webhooks.MAX_MESSAGE_AGE, 100),
+            () => undefined);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    /**
+     * Verifies that a request is new, as done before handling it.
+     * @param req the request to verify
+     * @return if the request is new, and the response
+     */
+    const verify = (req: Request) => {
+        const res = response();
+        return { isNew: webhooks['verifyRequestIsNew'](req, res as unknown as Response), res };
+    };
+
+    it('accepts recent requests once', () => {
+        expect(verify(request('a', new Date(Date.now() - 1000))).isNew).toBe(true);
+
+        const { isNew, res } = verify(request('a', new Date()));
+        expect(isNew).toBe(false);
+        expect(res.sendStatus).toHaveBeenCalledWith(204);
+        expect(webhooks.getRejectedCounts()).toEqual({ invalidSignature: 0, expired: 0, duplicate: 1 });
+    });
+
+    it('ignores the requests older than the max age', () => {
+        expect(verify(request('a', new Date(Date.now() - Webhooks.MAX_MESSAGE_AGE))).isNew).toBe(true);
+
+        const { isNew, res } = verify(request('b', new Date(Date.now() - Webhooks.MAX_MESSAGE_AGE - 1)));
+        expect(isNew).toBe(false);
+        expect(res.sendStatus).toHaveBeenCalledWith(204);
+        expect(verify(request('c', 'not a date')).isNew).toBe(false);
+        expect(webhooks.getRejectedCounts()).toEqual({ invalidSignature: 0, expired: 2, duplicate: 0 });
+    });
+
+    it('does not remember the ids of expired requests', () => {
+        verify(request('a', new Date(Date.now() - Webhooks.MAX_MESSAGE_AGE - 1)));
+
+        expect(verify(request('a', new Date())).isNew).toBe(true);
+    });
+
+    it('accepts the verification requests every time they are retried', () => {
+        expect(verify(request('a', new Date(), 'webhook_callback_verification')).isNew).toBe(true);
+        expect(verify(request('a', new Date(), 'webhook_callback_verification')).isNew).toBe(true);
+    });
+
+    it('rejects a replayed request after its id has been forgotten, as it has expired', () => {
+        const sentAt = new Date();
+        expect(verify(request('a', sentAt)).isNew).toBe(true);
+
+        vi.advanceTimersByTime(Webhooks.MAX_MESSAGE_AGE);
+        expect(verify(request('a', sentAt)).isNew).toBe(false);
+        vi.advanceTimersByTime(1);
+        expect(verify(request('a', sentAt)).isNew).toBe(false);
+        expect(webhooks.getRejectedCounts()).toEqual({ invalidSignature: 0, expired: 1, duplicate: 1 });
+    });
+});
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AddressInfo, WebSocketServer } from 'ws';
+import { AlertDispatcher } from '../src/alert_dispatcher.js';
+import { EventSubWebSocket } from '../src/twitch/websocket.js';
+
+const servers: WebSocketServer[] = [];
+const clients: EventSubWebSocket[] = [];
+
+/**
+ * Starts a mock EventSub server that sends the given messages to each new connection.
+ * @param messages the raw messages to send, in order
+ * @return the url of the server
+ */
+const startServer = async (messages: string[]): Promise<string> => {
+    const server = new WebSocketServer({ port: 0 });
+    servers.push(server);
+    server.on('connection', socket => messages.forEach(message => socket.send(message)));
+    await new Promise(resolve => server.once('listening', resolve));
+    return `ws://localhost:${(server.address() as AddressInfo).port}`;
+};
+
+const welcome = (sessionId: string) => JSON.stringify({
+    metadata: { 'message_id': '1', 'message_type': 'session_welcome', 'message_timestamp': new Date().toISOString() },
+    payload: { session: { id: sessionId, status: 'connected', 'keepalive_timeout_seconds': 10, 'reconnect_url': null } },
+});
+
+/**
+ * Builds a raw message of the given type.
+ * @param messageType the type of the message
+ * @param payload the payload of the message
+ */
+const frame = (messageType: string, payload: unknown) => JSON.stringify({
+    metadata: { 'message_id': '2', 'message_type': messageType, 'message_timestamp': new Date().toISOString() },
+    payload: payload,
+});
+
+describe('EventSubWebSocket', () => {
+    afterEach(async () => {
+        for (const client of clients.splice(0)) {
+            // Forget the socket first, so that closing it doesn't schedule a reconnection
+            const socket = client['_socket'];
+            client['_socket'] = undefined;
+            clearTimeout(client['_keepaliveTimer']);
+            socket?.terminate();
+        }
+        await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+    });
+
+    it('starts a session once welcomed', async () => {
+        const url = await startServer([welcome('session-1')]);
+        const onSession = vi.fn();
+        const client = new EventSubWebSocket({} as AlertDispatcher, url, onSession);
+        clients.push(client);
+        client.connect();
+
+        await vi.waitFor(() => expect(onSession).toHaveBeenCalledWith('session-1'));
+    });
+
+    it('ignores messages that are not valid JSON and keeps the connection', async () => {
+        const url = await startServer(['not json', '{"metadata":', JSON.stringify({ payload: {} }), welcome('session-2')]);
+        const onSession = vi.fn();
+        const client = new EventSubWebSocket({} as AlertDispatcher, url, onSession);
+        clients.push(client);
+        client.connect();
+
+        await vi.waitFor(() => expect(onSession).toHaveBeenCalledWith('session-2'));
+        expect(client['_socket']?.readyState).toBe(1);
+    });
+
+    it('ignores messages with a malformed payload and keeps the connection', async () => {
+        const url = await startServer([
+            frame('notification', {}),
+            frame('notification', { subscription: null, event: {} }),
+            frame('notification', { subscription: { type: 'stream.online' } }),
+            frame('session_reconnect', { session: 'wss://example.com' }),
+            frame('session_reconnect', {}),
+            frame('revocation', { subscription: [] }),
+            frame('session_welcome', null),
+            welcome('session-3'),
+        ]);
+        const onSession = vi.fn();
+        const client = new EventSubWebSocket({} as AlertDispatcher, url, onSession);
+        clients.push(client);
+        client.connect();
+
+        await vi.waitFor(() => expect(onSession).toHaveBeenCalledWith('session-3'));
+        expect(onSession).toHaveBeenCalledTimes(1);
+        expect(client['_pendingSocket']).toBeUndefined();
+        expect(client['_socket']?.readyState).toBe(1);
+    });
+});